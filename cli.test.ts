@@ -0,0 +1,348 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main, Output } from './lib/cli';
+import { fromYAML, toJSON, toYAML } from './format';
+
+let directory: string;
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'spogtan-'));
+});
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+// Writes an entry module into the temporary directory, which can import spogtan as `spogtan`
+function write_entry(name: string, source: string): string {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, source.replace(/'spogtan'/g, JSON.stringify(path.join(__dirname, 'index'))));
+  return file;
+}
+
+async function run(...args: string[]): Promise<{ code: number; log: string[]; error: string[] }> {
+  const log: string[] = [];
+  const error: string[] = [];
+  const output: Output = { log: (message) => log.push(message), error: (message) => error.push(message) };
+  return { code: await main(args, output), log, error };
+}
+
+const movie_entry = `
+  const { spogtan } = require('spogtan');
+  const $ = spogtan();
+  const $movie = $.wrap({ title: $.get('title'), year: $.get('year') });
+  module.exports = {
+    'movies.yaml': { movies: [$movie({ title: 'Bridesmaids', year: 2011 })] },
+    'nested/movie.json': $movie({ title: 'Interstellar', year: 2014 }),
+    '.env': { TITLE: $.with({ title: 'Ex Machina' }, $.get('title')) },
+  };
+`;
+
+test('build writes each file in a map', async () => {
+  const entry = write_entry('entry.js', movie_entry);
+  const out = path.join(directory, 'out');
+  expect((await run('build', entry, '--out', out)).code).toBe(0);
+
+  expect(fs.readFileSync(path.join(out, 'movies.yaml'), 'utf8')).toBe(
+    'movies:\n  - title: Bridesmaids\n    year: 2011\n',
+  );
+  expect(fs.readFileSync(path.join(out, 'nested/movie.json'), 'utf8')).toBe(
+    '{\n  "title": "Interstellar",\n  "year": 2014\n}\n',
+  );
+  expect(fs.readFileSync(path.join(out, '.env'), 'utf8')).toBe('TITLE="Ex Machina"\n');
+  expect(fs.readdirSync(out).sort()).toEqual(['.env', 'movies.yaml', 'nested']);
+});
+
+test('build only writes files inside the output directory', async () => {
+  const out = path.join(directory, 'out');
+  const dotted = write_entry('dotted.js', `module.exports = { '..config.yaml': { a: 1 }, 'nested/...env': { B: 2 } };`);
+  expect((await run('build', dotted, '--out', out)).code).toBe(0);
+  expect(fs.readFileSync(path.join(out, '..config.yaml'), 'utf8')).toBe('a: 1\n');
+  expect(fs.readFileSync(path.join(out, 'nested', '...env'), 'utf8')).toBe('B=2\n');
+
+  const escaping = write_entry('escaping.js', `module.exports = { 'nested/../../escaped.yaml': { a: 1 } };`);
+  const escaped = await run('build', escaping, '--out', out);
+  expect(escaped.code).toBe(1);
+  expect(escaped.error).toContain(
+    'Output file nested/../../escaped.yaml must be a relative path inside the output directory',
+  );
+  expect(fs.existsSync(path.join(directory, 'escaped.yaml'))).toBe(false);
+});
+
+test('build --check reports stale files', async () => {
+  const entry = write_entry('entry.js', movie_entry);
+  const out = path.join(directory, 'out');
+
+  const missing = await run('build', entry, '--out', out, '--check');
+  expect(missing.code).toBe(1);
+  expect(missing.error[missing.error.length - 1]).toBe(
+    '3 of 3 files are out of date, run spogtan build to update them.',
+  );
+  expect(fs.existsSync(out)).toBe(false);
+
+  await run('build', entry, '--out', out);
+  expect(await run('build', entry, `--out=${out}`, '--check')).toEqual({
+    code: 0,
+    log: ['All 3 files are up to date.'],
+    error: [],
+  });
+
+  fs.appendFileSync(path.join(out, 'movies.yaml'), '# hand edited\n');
+  const stale = await run('build', entry, '--out', out, '--check');
+  expect(stale.code).toBe(1);
+  expect(stale.error[0]).toBe(`${path.relative('.', path.join(out, 'movies.yaml'))} is out of date`);
+});
+
+test('build --unused fails on parameters which are never read', async () => {
+  const entry = write_entry(
+    'entry.js',
+    `
+      const { spogtan } = require('spogtan');
+      const $ = spogtan();
+      module.exports = { 'movie.json': $.with({ title: 'Heat', yaer: 1995 }, { title: $.get('title') }) };
+    `,
+  );
+  const out = path.join(directory, 'out');
+  expect((await run('build', entry, '--out', out)).code).toBe(0);
+  const result = await run('build', entry, '--out', out, '--unused', 'error');
+  expect(result.code).toBe(1);
+  expect(result.error[0]).toMatch(
+    /^Parameters were set but never read:\n {2}yaer from with\(\) at .*entry\.js:\d+:\d+$/,
+  );
+  expect((await run('build', entry, '--out', out, '--unused=typo')).error[0]).toMatch(
+    /^--unused must be warn or error, not typo\n/,
+  );
+});
+
+test('build a single value', async () => {
+  const entry = write_entry('entry.js', `module.exports = { default: () => ({ answer: 42 }) };`);
+  const out = path.join(directory, 'answer.toml');
+  expect((await run('build', entry, '--out', out)).code).toBe(0);
+  expect(fs.readFileSync(out, 'utf8')).toBe('answer = 42\n');
+
+  const result = await run('build', entry, '--out', path.join(directory, 'answer'));
+  expect(result.code).toBe(1);
+  expect(result.error[0]).toMatch(/^The entry module exports a single value, so --out must be a file ending in one of/);
+});
+
+test('build usage errors', async () => {
+  expect((await run('build', '--out', 'x')).code).toBe(2);
+  expect((await run('build', 'entry.ts')).error[0]).toMatch(/^--out is required\n\nUsage: spogtan build/);
+  expect((await run('build', 'entry.ts', '--out', 'x', '--unknown')).error[0]).toMatch(/^Unknown option --unknown/);
+  expect((await run('frobnicate')).code).toBe(2);
+});
+
+test('build awaits async late values', async () => {
+  fs.writeFileSync(path.join(directory, 'version.txt'), '1.2.3\n');
+  const entry = write_entry(
+    'entry.js',
+    `
+      const fs = require('fs');
+      const { spogtan } = require('spogtan');
+      const $ = spogtan();
+      const read = (file) => async () => (await fs.promises.readFile(require.resolve('./' + file), 'utf8')).trim();
+      module.exports = { 'app.json': $.with({ version: read('version.txt') }, { version: $.get('version') }) };
+    `,
+  );
+  const out = path.join(directory, 'out');
+  expect(await run('build', entry, '--out', out)).toEqual({
+    code: 0,
+    log: [`Wrote ${path.relative('.', path.join(out, 'app.json'))}`, '1 of 1 files changed.'],
+    error: [],
+  });
+  expect(fs.readFileSync(path.join(out, 'app.json'), 'utf8')).toBe('{\n  "version": "1.2.3"\n}\n');
+});
+
+test('build applies overrides', async () => {
+  const entry = write_entry(
+    'entry.js',
+    `
+      const { spogtan, schema } = require('spogtan');
+      const $ = spogtan(schema.object({ replicas: schema.number(), image: schema.string(), note: schema.string() }));
+      module.exports = {
+        'app.yaml': $.with_overrides($.with({ replicas: 1, image: 'web:latest', note: 'none' }, $.objectify(['replicas', 'image', 'note']))),
+      };
+    `,
+  );
+  fs.writeFileSync(path.join(directory, 'overrides.yaml'), 'replicas: 2\nimage: web:abc123\n');
+  fs.writeFileSync(path.join(directory, 'note.txt'), 'from a file');
+  const out = path.join(directory, 'out');
+  const overrides = ['--overrides', path.join(directory, 'overrides.yaml'), '--set', 'replicas=3'];
+  const result = await run(
+    'build',
+    entry,
+    '--out',
+    out,
+    ...overrides,
+    `--set-file=note=${path.join(directory, 'note.txt')}`,
+  );
+  expect(result.error).toEqual([]);
+  expect(fs.readFileSync(path.join(out, 'app.yaml'), 'utf8')).toBe(
+    'replicas: 3\nimage: web:abc123\nnote: from a file\n',
+  );
+
+  const ignored = write_entry('ignored.js', `module.exports = { 'app.yaml': { replicas: 1 } };`);
+  expect(await run('build', ignored, '--out', out, '--set', 'replicas=3')).toEqual({
+    code: 1,
+    log: [],
+    error: [
+      'Overrides were given, but nothing applied them. Wrap the exported config with $.with_overrides() to use them.',
+    ],
+  });
+});
+
+test('build redacts secrets and reports where they are', async () => {
+  const entry = write_entry(
+    'entry.js',
+    `
+      const { spogtan, schema } = require('spogtan');
+      const $ = spogtan(schema.object({ user: schema.string(), password: schema.secret(schema.string()) }));
+      module.exports = {
+        'app.yaml': $.with_overrides($.with({ user: 'admin' }, { user: $.get('user'), url: $.template\`db://\${'user'}:\${'password'}@db\` })),
+        'public.json': { name: 'app' },
+      };
+    `,
+  );
+  const out = path.join(directory, 'out');
+  const app = path.relative('.', path.join(out, 'app.yaml'));
+  const result = await run('build', entry, '--out', out, '--set', 'password=hunter2');
+  expect(result.log.slice(-1)).toEqual([`${app} contains secrets at url, which are written as <redacted>`]);
+  expect(fs.readFileSync(path.join(out, 'app.yaml'), 'utf8')).toBe('user: admin\nurl: <redacted>\n');
+
+  expect((await run('build', entry, '--out', out, '--set', 'password=hunter2', '--reveal-secrets')).log).toContain(
+    `${app} contains secrets at url`,
+  );
+  expect(fs.readFileSync(path.join(out, 'app.yaml'), 'utf8')).toBe('user: admin\nurl: db://admin:hunter2@db\n');
+});
+
+test('build a Typescript entry module', () => {
+  const entry = write_entry(
+    'entry.ts',
+    `
+      import { spogtan } from 'spogtan';
+      interface Parameters {
+        name: string;
+      }
+      const $ = spogtan<Parameters>();
+      export default { 'greeting.yaml': $.with({ name: 'world' }, $.template\`hello \${'name'}\`) };
+    `,
+  );
+  const out = path.join(directory, 'out');
+  const cli = path.join(__dirname, 'cli.js');
+  const result = child_process.spawnSync(process.execPath, [cli, 'build', entry, '--out', out], { encoding: 'utf8' });
+  expect(result.stderr).toBe('');
+  expect(result.status).toBe(0);
+  expect(fs.readFileSync(path.join(out, 'greeting.yaml'), 'utf8')).toBe('hello world\n');
+});
+
+test('explain shows where a value came from', async () => {
+  const entry = write_entry('entry.js', movie_entry);
+  const result = await run('explain', entry, 'movies[0].year', '--file', 'movies.yaml');
+  expect(result.error).toEqual([]);
+  expect(result.log[0].replace(/\S+entry\.js:\d+:\d+/g, '<call site>')).toBe(
+    'movies[0].year = 2011\n  year:\n    1. value 2011 from wrap() at <call site>',
+  );
+  expect((await run('explain', entry, 'movies[0].year')).error[0]).toBe(
+    'Choose one of the files: movies.yaml, nested/movie.json, .env',
+  );
+});
+
+test('import turns files into a component, with a Parameter for each value which differs', () => {
+  // The generated module imports spogtan by name
+  fs.mkdirSync(path.join(directory, 'node_modules/spogtan'), { recursive: true });
+  fs.writeFileSync(
+    path.join(directory, 'node_modules/spogtan/index.js'),
+    `module.exports = require(${JSON.stringify(path.join(__dirname, 'index'))});`,
+  );
+  const service = (name: string, replicas: number, port: number) =>
+    [
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata:',
+      `  name: ${name}`,
+      `  labels: { app: ${name}, tier: backend }`,
+      'spec:',
+      `  replicas: ${replicas}`,
+      '  template:',
+      '    spec:',
+      '      containers:',
+      `        - name: ${name}`,
+      `          image: registry.example.com/${name}:1.0`,
+      `          ports: [{ containerPort: ${port} }]`,
+      `          args: ["--listen=:${port}", --verbose]`,
+      '',
+    ].join('\n');
+  fs.mkdirSync(path.join(directory, 'deploy'));
+  fs.writeFileSync(path.join(directory, 'deploy/api.yaml'), service('api', 3, 8080));
+  fs.writeFileSync(path.join(directory, 'deploy/web.yaml'), service('web', 3, 80));
+  fs.writeFileSync(path.join(directory, 'deploy/worker.json'), toJSON(fromYAML(service('worker', 1, 9000))));
+
+  const cli = path.join(__dirname, 'cli.js');
+  const spawn = (...args: string[]) =>
+    child_process.spawnSync(process.execPath, [cli, ...args], { encoding: 'utf8', cwd: directory });
+  const result = spawn(
+    'import',
+    'deploy/api.yaml',
+    'deploy/web.yaml',
+    'deploy/worker.json',
+    '--out',
+    'deploy/service.ts',
+  );
+  expect(result.stderr).toBe('');
+  expect(result.stdout).toBe(
+    'Wrote deploy/service.ts, with 3 Parameters: name, replicas, container_port\n' +
+      'Evaluating it reproduces all 3 files.\n',
+  );
+  expect(fs.readFileSync(path.join(directory, 'deploy/service.ts'), 'utf8')).toMatchSnapshot();
+
+  // Building the module writes the same files again
+  fs.rmSync(path.join(directory, 'deploy/api.yaml'));
+  expect(spawn('build', 'deploy/service.ts', '--out', 'deploy').status).toBe(0);
+  expect(fs.readFileSync(path.join(directory, 'deploy/api.yaml'), 'utf8')).toBe(
+    toYAML(fromYAML(service('api', 3, 8080))),
+  );
+
+  const mismatched = spawn('import', 'deploy/api.yaml', 'deploy/service.ts', '--out', 'deploy/other.ts');
+  expect(mismatched.status).toBe(1);
+  expect(mismatched.stderr).toBe("Can't import deploy/service.ts, only .yaml, .yml and .json files are supported\n");
+});
+
+test('diff reports changes between two modules, or one with two sets of overrides', async () => {
+  const entry = (name: string, replicas: number, hosts: string) =>
+    write_entry(
+      name,
+      `
+        const { spogtan, schema } = require('spogtan');
+        const $ = spogtan(schema.object({ replicas: schema.number() }));
+        const service = (name, port) => ({ metadata: { name }, spec: { replicas: $.get('replicas'), port } });
+        module.exports = {
+          'services.yaml': $.with_overrides($.with({ replicas: ${replicas} }, [${hosts}])),
+          'app.env': { MODE: 'prod' },
+        };
+      `,
+    );
+  const before = entry('before.js', 1, `service('web', 80), service('api', 8080), service('old', 1)`);
+  const after = entry('after.js', 1, `service('api', 8081), service('web', 80), service('new', 2)`);
+
+  expect(await run('diff', before, after, '--key', 'metadata.name')).toEqual({
+    code: 1,
+    log: [
+      [
+        `~ ["services.yaml"][0].spec.port: 8080 -> 8081`,
+        `+ ["services.yaml"][2]: { metadata: { name: 'new' }, spec: { replicas: 1, port: 2 } }`,
+        `- ["services.yaml"][2]: { metadata: { name: 'old' }, spec: { replicas: 1, port: 1 } }`,
+        '3 changes: 1 added, 1 removed, 1 changed',
+      ].join('\n'),
+    ],
+    error: [],
+  });
+
+  const overrides = await run('diff', before, '--file', 'services.yaml', '--after-set', 'replicas=2', '--json');
+  expect(overrides.code).toBe(1);
+  expect(JSON.parse(overrides.log[0]).changes).toEqual([
+    { kind: 'changed', path: '[0].spec.replicas', before: 1, after: 2 },
+    { kind: 'changed', path: '[1].spec.replicas', before: 1, after: 2 },
+    { kind: 'changed', path: '[2].spec.replicas', before: 1, after: 2 },
+  ]);
+  expect(await run('diff', before, '--set', 'replicas=2')).toEqual({ code: 0, log: ['No changes.'], error: [] });
+});
@@ -0,0 +1,168 @@
+import { spogtan } from './index';
+import { toJSON, toYAML } from './format';
+import { CloudFormationCheckError, checkTemplate, cloudformation_template, fn, resource } from './cloudformation';
+
+interface Queue {
+  name: string;
+  retention: number;
+}
+
+const $ = spogtan<Queue>();
+
+const bucket = resource('LogBucket', 'AWS::S3::Bucket', {
+  BucketName: fn.sub('${AWS::StackName}-logs'),
+  VersioningConfiguration: fn.if('IsProd', { Status: 'Enabled' }, fn.ref('AWS::NoValue')),
+});
+
+// A queue per name, whose logical ID is only known once it's evaluated
+const queue = () =>
+  resource(`${$('name')}Queue`, 'AWS::SQS::Queue', {
+    QueueName: fn.join('-', [fn.ref('AWS::StackName'), $.get('name')]),
+    MessageRetentionPeriod: $.get('retention'),
+    Tags: [{ Key: 'logs', Value: fn.get_att(bucket, 'Arn') }],
+  });
+
+const template = cloudformation_template({
+  Parameters: { Stage: { Type: 'String', AllowedValues: ['dev', 'prod'] } },
+  Conditions: { IsProd: fn.equals(fn.ref('Stage'), 'prod') },
+  Resources: [
+    bucket,
+    $.with({ retention: 345600 }, [$.with({ name: 'Orders' }, queue), $.with({ name: 'Emails' }, queue)]),
+  ],
+  Outputs: {
+    Bucket: { Value: fn.base64(fn.sub('${LogBucket}')), Export: { Name: fn.sub('${AWS::StackName}-bucket') } },
+  },
+});
+
+test('intrinsics are written in their long form as JSON, and their short form as YAML', () => {
+  const evaluated = spogtan.evaluate(template);
+  expect(JSON.parse(toJSON(evaluated)).Resources.OrdersQueue).toEqual({
+    Type: 'AWS::SQS::Queue',
+    Properties: {
+      QueueName: { 'Fn::Join': ['-', [{ Ref: 'AWS::StackName' }, 'Orders']] },
+      MessageRetentionPeriod: 345600,
+      Tags: [{ Key: 'logs', Value: { 'Fn::GetAtt': ['LogBucket', 'Arn'] } }],
+    },
+  });
+  expect(toYAML(evaluated)).toBe(
+    [
+      'Parameters:',
+      '  Stage:',
+      '    Type: String',
+      '    AllowedValues:',
+      '      - dev',
+      '      - prod',
+      'Conditions:',
+      '  IsProd: !Equals',
+      '    - !Ref Stage',
+      '    - prod',
+      'Resources:',
+      '  LogBucket:',
+      '    Type: AWS::S3::Bucket',
+      '    Properties:',
+      '      BucketName: !Sub ${AWS::StackName}-logs',
+      '      VersioningConfiguration: !If',
+      '        - IsProd',
+      '        - Status: Enabled',
+      '        - !Ref AWS::NoValue',
+      '  OrdersQueue:',
+      '    Type: AWS::SQS::Queue',
+      '    Properties:',
+      '      QueueName: !Join',
+      "        - '-'",
+      '        - - !Ref AWS::StackName',
+      '          - Orders',
+      '      MessageRetentionPeriod: 345600',
+      '      Tags:',
+      '        - Key: logs',
+      '          Value: !GetAtt LogBucket.Arn',
+      '  EmailsQueue:',
+      '    Type: AWS::SQS::Queue',
+      '    Properties:',
+      '      QueueName: !Join',
+      "        - '-'",
+      '        - - !Ref AWS::StackName',
+      '          - Emails',
+      '      MessageRetentionPeriod: 345600',
+      '      Tags:',
+      '        - Key: logs',
+      '          Value: !GetAtt LogBucket.Arn',
+      'Outputs:',
+      '  Bucket:',
+      '    Value: !Base64',
+      '      Fn::Sub: ${LogBucket}',
+      '    Export:',
+      '      Name: !Sub ${AWS::StackName}-bucket',
+      '',
+    ].join('\n'),
+  );
+});
+
+test('templates and intrinsics can hold async values', async () => {
+  const name = async () => 'Orders';
+  const stack = cloudformation_template({
+    Resources: [resource('Queue', 'AWS::SQS::Queue', { QueueName: fn.join('-', [fn.ref('AWS::StackName'), name]) })],
+  });
+  expect(JSON.parse(toJSON(await spogtan.evaluateAsync(stack)))).toEqual({
+    Resources: {
+      Queue: {
+        Type: 'AWS::SQS::Queue',
+        Properties: { QueueName: { 'Fn::Join': ['-', [{ Ref: 'AWS::StackName' }, 'Orders']] } },
+      },
+    },
+  });
+  await expect(
+    spogtan.evaluateAsync(
+      cloudformation_template({
+        Resources: [resource('Queue', 'AWS::SQS::Queue', async () => ({ Name: fn.ref('Orders') }))],
+      }),
+    ),
+  ).rejects.toThrow(
+    "CloudFormation template check failed\n  Resources.Queue.Properties.Name: there's no parameter or resource called Orders",
+  );
+});
+
+test('templates are checked for references to things they do not define', () => {
+  const broken = cloudformation_template({
+    Conditions: { IsProd: fn.equals(fn.ref('Stage'), 'prod') },
+    Resources: [
+      bucket,
+      bucket,
+      resource(
+        'Topic',
+        'AWS::SNS::Topic',
+        { TopicName: fn.sub('${Name}-${LogBucket.Arn}-${!Literal}', { Name: 'x' }) },
+        {
+          DependsOn: ['Queue'],
+          Condition: 'IsDev',
+        },
+      ),
+      resource('bad-id', 'AWS::SNS::Topic', { TopicName: fn.sub('${Missing.Arn} in ${AWS::Regoin}') }),
+    ],
+  });
+  expect(() => spogtan.evaluate({ stack: broken })).toThrow(
+    new CloudFormationCheckError(
+      [
+        { path: ['Resources', 1], message: "there's more than one resource LogBucket" },
+        { path: ['Resources', 'bad-id'], message: "bad-id isn't alphanumeric" },
+        { path: ['Resources', 'Topic', 'DependsOn', 0], message: "there's no resource called Queue" },
+        { path: ['Resources', 'Topic', 'Condition'], message: "there's no condition called IsDev" },
+        { path: ['Resources', 'bad-id', 'Properties', 'TopicName'], message: "there's no resource called Missing" },
+        {
+          path: ['Resources', 'bad-id', 'Properties', 'TopicName'],
+          message: "there's no parameter or resource called AWS::Regoin",
+        },
+        { path: ['Conditions', 'IsProd', 'Fn::Equals', 0], message: "there's no parameter or resource called Stage" },
+      ],
+      ['stack'],
+    ),
+  );
+  // Templates made by other means are checked in their long form
+  expect(() =>
+    checkTemplate({
+      Resources: { Topic: { Type: 'AWS::SNS::Topic', Properties: { Name: { 'Fn::GetAtt': 'Queue.Arn' } } } },
+    }),
+  ).toThrow(
+    "CloudFormation template check failed\n  Resources.Topic.Properties.Name: there's no resource called Queue",
+  );
+});
@@ -0,0 +1,21 @@
+export {
+  fn,
+  resource,
+  cloudformation_template,
+  checkTemplate,
+  Intrinsic,
+  Resource,
+  CloudFormationCheckError,
+} from './lib/cloudformation';
+export type {
+  IntrinsicName,
+  Value,
+  LogicalId,
+  ResourceAttributes,
+  ResourceDefinition,
+  TemplateParameter,
+  TemplateOutput,
+  Template,
+  TemplateSource,
+} from './lib/cloudformation';
+export type { CheckIssue } from './lib/errors';
@@ -0,0 +1,321 @@
+import { spogtan } from './index';
+import { toYAML, toJSON, toTOML, toDotenv, FormatError, fromYAML, ParseError, YAMLTag, yamlTagSymbol } from './format';
+
+interface Parameters {
+  name: string;
+  mode: string;
+}
+
+test('YAML of an evaluated config', () => {
+  const $ = spogtan<Parameters>();
+  const $file = $.wrap({ name: $.get('name'), mode: $.get('mode'), enabled: true, size: 42n });
+  const config = spogtan.evaluate({ files: [$file({ name: 'a', mode: '0755' }), $file({ name: 'yes', mode: '644' })] });
+  expect(toYAML(config)).toBe(
+    [
+      'files:',
+      '  - name: a',
+      "    mode: '0755'",
+      '    enabled: true',
+      '    size: 42',
+      "  - name: 'yes'",
+      "    mode: '644'",
+      '    enabled: true',
+      '    size: 42',
+      '',
+    ].join('\n'),
+  );
+});
+
+test('YAML quotes ambiguous scalars', () => {
+  const ambiguous = [
+    'yes',
+    'No',
+    'null',
+    '~',
+    '0755',
+    '0x1F',
+    '1e3',
+    '.5',
+    '.inf',
+    '1:30',
+    '2001-12-14',
+    '',
+    ' padded',
+  ];
+  const punctuated = ['- item', 'a: b', 'a #b', '*alias', "it's"];
+  expect(toYAML(ambiguous)).toBe(ambiguous.map((string) => `- '${string}'\n`).join(''));
+  expect(toYAML(punctuated)).toBe("- '- item'\n- 'a: b'\n- 'a #b'\n- '*alias'\n- it's\n");
+  expect(toYAML({ 'a: b': 'plain string', 80: 'http' })).toBe("'80': http\n'a: b': plain string\n");
+  expect(toYAML('\x07bell\r')).toBe('"\\u0007bell\\r"\n');
+});
+
+test('YAML block scalars', () => {
+  expect(toYAML({ clip: 'a\nb\n', strip: 'a\nb', keep: 'a\nb\n\n', indented: '  a\nb' })).toBe(
+    [
+      'clip: |',
+      '  a',
+      '  b',
+      'strip: |-',
+      '  a',
+      '  b',
+      'keep: |+',
+      '  a',
+      '  b',
+      '',
+      'indented: |2-',
+      '    a',
+      '  b',
+      '',
+    ].join('\n'),
+  );
+  expect(toYAML([{ script: 'echo a\n\necho b\n' }])).toBe('- script: |\n    echo a\n\n    echo b\n');
+  expect(toYAML({ newline: '\n', newlines: '\n\n' })).toBe('newline: "\\n"\nnewlines: "\\n\\n"\n');
+});
+
+test('YAML scalar types and empty collections', () => {
+  expect(
+    toYAML({
+      number: -1.5,
+      nan: NaN,
+      infinity: -Infinity,
+      bigint: 12345678901234567890n,
+      symbol: Symbol('symbol'),
+      nullable: null,
+      optional: undefined,
+      array: [],
+      object: {},
+      sparse: [undefined],
+    }),
+  ).toBe(
+    [
+      'number: -1.5',
+      'nan: .nan',
+      'infinity: -.inf',
+      'bigint: 12345678901234567890',
+      'symbol: symbol',
+      'nullable: null',
+      'array: []',
+      'object: {}',
+      'sparse:',
+      '  - null',
+      '',
+    ].join('\n'),
+  );
+});
+
+test('YAML nested sequences and indentation', () => {
+  expect(toYAML({ matrix: [[1, 2], [{ a: 1, b: [] }]] }, { indent: 4 })).toBe(
+    ['matrix:', '    -   - 1', '        - 2', '    -   -   a: 1', '            b: []', ''].join('\n'),
+  );
+});
+
+test('YAML multi-document streams', () => {
+  expect(toYAML([{ kind: 'Service' }, 'text', ['item']], { multi_document: true })).toBe(
+    '---\nkind: Service\n---\ntext\n---\n- item\n',
+  );
+  expect(() => toYAML({}, { multi_document: true })).toThrow(FormatError);
+});
+
+test('YAML tags', () => {
+  class Env {
+    constructor(readonly name: string) {}
+    [yamlTagSymbol]() {
+      return new YAMLTag('!env', this.name);
+    }
+    toJSON() {
+      return { env: this.name };
+    }
+  }
+  const value = {
+    home: new Env('HOME'),
+    paths: new YAMLTag('!join', [new Env('A'), 'b\nc\n']),
+    empty: new YAMLTag('!x', {}),
+  };
+  expect(toYAML(value)).toBe(
+    ['home: !env HOME', 'paths: !join', '  - !env A', '  - |', '    b', '    c', 'empty: !x {}', ''].join('\n'),
+  );
+  expect(toYAML(new YAMLTag('!list', [1]))).toBe('!list\n  - 1\n');
+  expect(toJSON({ home: new Env('HOME') }, { indent: 0 })).toBe('{\n"home": {\n"env": "HOME"\n}\n}\n');
+  expect(() => toJSON(value)).toThrow("Can't serialize an instance of YAMLTag in JSON (at paths)");
+});
+
+test('stable key ordering', () => {
+  const value = { b: 1, a: { d: 1, c: 2 } };
+  expect(toYAML(value, { sort_keys: true })).toBe('a:\n  c: 2\n  d: 1\nb: 1\n');
+  expect(toJSON(value, { sort_keys: true })).toBe('{\n  "a": {\n    "c": 2,\n    "d": 1\n  },\n  "b": 1\n}\n');
+  expect(toTOML(value, { sort_keys: true })).toBe('b = 1\n\n[a]\nc = 2\nd = 1\n');
+  expect(toDotenv({ B: 1, A: 2 }, { sort_keys: true })).toBe('A=2\nB=1\n');
+});
+
+test('JSON', () => {
+  expect(toJSON({ bigint: 42n, symbol: Symbol('symbol'), optional: undefined, array: [undefined], empty: {} })).toBe(
+    '{\n  "bigint": 42,\n  "symbol": "symbol",\n  "array": [\n    null\n  ],\n  "empty": {}\n}\n',
+  );
+  expect(toJSON([1, 'two'], { indent: 0 })).toBe('[\n1,\n"two"\n]\n');
+  expect(() => toJSON({ a: [Infinity] })).toThrow('JSON has no representation for Infinity (at a[0])');
+  expect(() => toJSON({ a: () => 1 })).toThrow("Can't serialize a function (did you forget to evaluate it?) in JSON");
+});
+
+test('TOML', () => {
+  expect(
+    toTOML({
+      title: 'TOML "example"',
+      ports: [80, 443],
+      'key with spaces': { inline: true },
+      owner: { name: 'Tom', born: 1979n },
+      servers: [{ ip: '10.0.0.1' }, { ip: '10.0.0.2', limits: { memory: '1Gi' } }],
+    }),
+  ).toBe(
+    [
+      'title = "TOML \\"example\\""',
+      'ports = [80, 443]',
+      '',
+      '["key with spaces"]',
+      'inline = true',
+      '',
+      '[owner]',
+      'name = "Tom"',
+      'born = 1979',
+      '',
+      '[[servers]]',
+      'ip = "10.0.0.1"',
+      '',
+      '[[servers]]',
+      'ip = "10.0.0.2"',
+      '',
+      '[servers.limits]',
+      'memory = "1Gi"',
+      '',
+    ].join('\n'),
+  );
+  expect(() => toTOML({ a: { b: null } })).toThrow('TOML has no representation for null (at a.b)');
+  expect(() => toTOML([])).toThrow('A TOML document must be an object');
+});
+
+test('.env', () => {
+  expect(toDotenv({ PLAIN: 'postgres://db:5432/app', SPACES: 'a b', MULTILINE: 'a\n"b" $c', NUMBER: 3 })).toBe(
+    'PLAIN=postgres://db:5432/app\nSPACES="a b"\nMULTILINE="a\\n\\"b\\" \\$c"\nNUMBER=3\n',
+  );
+  expect(() => toDotenv({ 'not-valid': 'a' })).toThrow('"not-valid" is not a valid environment variable name');
+  expect(() => toDotenv({ NESTED: { a: 1 } })).toThrow(
+    "Can't serialize an object in .env, only scalars are supported (at NESTED)",
+  );
+});
+
+test('built-in classes are converted to plain data', () => {
+  class Version {
+    constructor(readonly major: number, readonly minor: number) {}
+    toJSON() {
+      return `${this.major}.${this.minor}`;
+    }
+  }
+  const value = {
+    released: new Date('2024-01-02T03:04:05Z'),
+    homepage: new URL('https://example.com/docs'),
+    key: Buffer.from('hi'),
+    labels: new Map<string | number, unknown>([
+      ['app', 'web'],
+      [1, new Set(['a', 'b'])],
+    ]),
+    version: new Version(1, 2),
+  };
+  expect(toYAML(value)).toBe(
+    [
+      "released: '2024-01-02T03:04:05.000Z'",
+      'homepage: https://example.com/docs',
+      'key: aGk=',
+      'labels:',
+      "  '1':",
+      '    - a',
+      '    - b',
+      '  app: web',
+      "version: '1.2'",
+      '',
+    ].join('\n'),
+  );
+  expect(toJSON({ labels: new Map([['app', 'web']]) })).toBe('{\n  "labels": {\n    "app": "web"\n  }\n}\n');
+
+  class Port {
+    constructor(readonly number: number) {}
+  }
+  expect(() => toYAML({ ports: [new Port(80)] })).toThrow(
+    new FormatError("Can't serialize an instance of Port in YAML", ['ports', 0]),
+  );
+  expect(() => toJSON(new Map([[Symbol('key'), 1]]))).toThrow(
+    new FormatError("Can't serialize a Map with a symbol as a key", []),
+  );
+});
+
+test('YAML parses what it writes', () => {
+  const values = [
+    {
+      strings: ['yes', '0755', 'a: b', "it's", '#x', '', ' padded ', '\ttab', 'x\r\ny', '-', 'key with: colon'],
+      blocks: ['multi\nline\n', ' leading\nspace', 'kept\n\n\n', 'stripped\nx', '\n', '\n\n'],
+      scalars: [null, true, -1.5, 12345678901234567890n, Infinity],
+      nested: [[1, [2]], [], {}, { 'a b': { c: [{ d: 1, e: { f: 2 } }] } }],
+    },
+    'top level\nblock\n',
+    42,
+  ];
+  for (const value of values) expect(fromYAML(toYAML(value))).toEqual(value);
+  expect(fromYAML(toYAML(values, { multi_document: true }), { multi_document: true })).toEqual(values);
+});
+
+test('YAML parsing', () => {
+  const yaml = [
+    'apiVersion: apps/v1  # comment',
+    'spec:',
+    '  containers:',
+    '  - name: web',
+    '    args: [--port, "8080", 0x1F, {a: ~}]',
+    '    command:',
+    '      - |',
+    '        echo hi',
+    '      - >-',
+    '        folded',
+    '        text',
+    '',
+    '        paragraph',
+    'base: &base',
+    '  x: 1',
+    '  y: 2',
+    'derived:',
+    '  <<: *base',
+    '  y: 3',
+    'plain: spans',
+    '  two lines',
+    'quoted: "escapes \\u00e9 \\"and',
+    '  folds\\""',
+    "single: 'it''s'",
+    'empty:',
+  ].join('\n');
+  expect(fromYAML(yaml)).toEqual({
+    apiVersion: 'apps/v1',
+    spec: {
+      containers: [
+        {
+          name: 'web',
+          args: ['--port', '8080', 31, { a: null }],
+          command: ['echo hi\n', 'folded text\nparagraph'],
+        },
+      ],
+    },
+    base: { x: 1, y: 2 },
+    derived: { x: 1, y: 3 },
+    plain: 'spans two lines',
+    quoted: 'escapes \u00e9 "and folds"',
+    single: "it's",
+    empty: null,
+  });
+});
+
+test('YAML parse errors', () => {
+  expect(() => fromYAML('a: 1\n  b: 2')).toThrow(new ParseError('Unexpected indentation', 2));
+  expect(() => fromYAML('a: 1\na: 2')).toThrow('Duplicate key a (at line 2)');
+  expect(() => fromYAML('a: !Ref b')).toThrow("Tags like !Ref aren't supported (at line 1)");
+  expect(() => fromYAML('a: [1, 2')).toThrow('Unterminated [ (at line 1)');
+  expect(() => fromYAML('a: *missing')).toThrow('Unknown alias *missing (at line 1)');
+  expect(() => fromYAML('---\na: 1\n---\nb: 2')).toThrow(
+    'Found several documents, use multi_document to parse a stream (at line 4)',
+  );
+});
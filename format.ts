@@ -0,0 +1,4 @@
+export { toYAML, toJSON, toTOML, toDotenv, FormatError, YAMLTag, yaml_tag_symbol as yamlTagSymbol } from './lib/format';
+export type { FormatOptions, YAMLOptions, JSONOptions, YAMLTaggable } from './lib/format';
+export { fromYAML, ParseError } from './lib/parse';
+export type { ParseOptions } from './lib/parse';
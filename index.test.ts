@@ -1,4 +1,25 @@
-import { spogtan } from './index';
+import {
+  spogtan,
+  schema,
+  Infer,
+  SpogtanError,
+  MissingParameterError,
+  CycleError,
+  RefError,
+  SelfEvaluating,
+  UnusedParameterError,
+  Secret,
+  ValidationError,
+  OverrideError,
+  OverrideSources,
+  Frame,
+  MergeError,
+  EvaluationError,
+  CallableSpogtan,
+  Namespace,
+} from './index';
+import * as util from 'util';
+import { toJSON, toYAML } from './format';
 
 interface Parameters {
   string: string;
@@ -124,13 +145,13 @@ test('InheritedOp works', () => {
     }),
     $.with(
       {
-        string: (string) => string + '?!',
-        number: (number) => (number ?? 0) + 1,
-        boolean: (boolean) => !boolean,
-        bigint: (bigint) => (bigint ?? 0n) + 1n,
-        symbol: (symbol) => (symbol ? Symbol(symbol.toString() + '?!') : Symbol('?!')),
-        nullable: (nullable) => nullable ?? 'nullable',
-        optional: (optional) => optional ?? 'optional',
+        string: $.inherit((string) => string + '?!'),
+        number: $.inherit((number) => (number ?? 0) + 1),
+        boolean: $.inherit((boolean) => !boolean),
+        bigint: $.inherit((bigint) => (bigint ?? 0n) + 1n),
+        symbol: $.inherit((symbol) => (symbol ? Symbol(symbol.toString() + '?!') : Symbol('?!'))),
+        nullable: $.inherit((nullable) => nullable ?? 'nullable'),
+        optional: $.inherit((optional) => optional ?? 'optional'),
       },
       $.objectify(['string', 'number', 'boolean', 'bigint', 'symbol', 'nullable'], {
         optional: $.get('optional', false),
@@ -140,6 +161,43 @@ test('InheritedOp works', () => {
   expect(spogtan.evaluate(values)).toMatchSnapshot();
 });
 
+test('only functions marked as InheritedOps are given the inherited value', () => {
+  const $ = spogtan<Parameters>();
+  const late_value = (suffix = '!') => `late${suffix}`;
+  const op_with_rest = (...args: (string | undefined)[]) => `${args[0]}?`;
+  const frame = {
+    string: late_value,
+    optional: $.inherit(op_with_rest),
+    nullable: $.template`${'string'}`,
+  };
+  const values = $.with({ string: 'outer', optional: 'inherited' }, $.with(frame, $.objectify(['string', 'optional'])));
+  expect(spogtan.evaluate(values)).toEqual({ string: 'late!', optional: 'inherited?' });
+
+  // Templates are only InheritedOps if they use $inherited, so others don't evaluate the value they replace
+  const replaced = $.with(
+    { string: $.get('number') as never },
+    $.with({ string: $.template`${'boolean'}!` }, $.get('string')),
+  );
+  expect(spogtan.evaluate($.with({ boolean: true }, replaced))).toBe('true!');
+
+  // When migrating, values which used to be told apart by how many arguments they take are warned about
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  const legacy = {
+    string: ((string?: string) => string ?? 'late') as unknown as string,
+    optional: $.inherit(op_with_rest),
+  };
+  spogtan.evaluate($.with({ string: 'outer' }, $.with(legacy, $.objectify(['string', 'optional']))), {
+    warn_legacy_ops: true,
+  });
+  expect(warn.mock.calls.map(([message]) => (message as string).replace(/ from .* at \S+/, ''))).toEqual([
+    'Warning: the value of parameter string takes one argument but is now treated as a late value, ' +
+      'wrap it with $.inherit() if it should be an InheritedOp (at string)',
+    "Warning: the value of parameter optional is an InheritedOp which doesn't take exactly one argument, " +
+      'so it used to be treated as a late value (at optional)',
+  ]);
+  warn.mockRestore();
+});
+
 test('Setting undefined removes parameter', () => {
   const $ = spogtan<Parameters>();
   const values = $.with(
@@ -249,3 +307,1016 @@ test('template string inherited', () => {
   );
   expect(spogtan.evaluate(values)).toMatchSnapshot();
 });
+
+test('missing parameters report the output path and frames searched', () => {
+  const $ = spogtan<Parameters>();
+  const $item = $.wrap({ string: $.get('string'), number: $.get('number') });
+  const values = $.with({ boolean: true }, { array: [$item({ string: 'a', number: 1 }), $item({ string: 'b' })] });
+
+  let error: unknown;
+  try {
+    spogtan.evaluate(values);
+  } catch (caught) {
+    error = caught;
+  }
+  expect(error).toBeInstanceOf(MissingParameterError);
+  expect(error).toMatchObject({
+    parameter: 'number',
+    path: ['array', 1, 'number'],
+    frames: [{ keys: ['boolean'] }, { keys: ['string'] }],
+  });
+  expect((error as Error).message.replace(/ from .*/g, '')).toBe(
+    'Missing required parameter number (at array[1].number)\n' +
+      'Frames searched, outermost first:\n' +
+      '  {boolean}\n' +
+      '  {string}',
+  );
+});
+
+test('errors in merged arrays report their index in the merged result', () => {
+  const $ = spogtan<Parameters>();
+  const $item = $.wrap({ string: $.get('string') });
+  const first = $.with({ string: 'first' }, [$item(), $item()]);
+  const second = [$item({ string: 'third' }), $item()];
+  expect(() => spogtan.evaluate({ array: spogtan.merge(first, second) })).toThrow(
+    'Missing required parameter string (at array[3].string)',
+  );
+});
+
+test('merge errors report the output path', () => {
+  const values = { object: { string: spogtan.merge('string', ['array'] as unknown as string) } };
+  expect(() => spogtan.evaluate(values)).toThrow(
+    new MergeError("Can't merge item 1 of type Array with items of type String", ['object', 'string']),
+  );
+  expect(() => spogtan.evaluate({ array: [spogtan.merge(42 as unknown as string)] })).toThrow(
+    "Can't merge values of type Number, must be a string, array or object. (at array[0])",
+  );
+  expect(() => spogtan.evaluate({ object: spogtan.merge(Object.create(null), 'string') })).toThrow(
+    new MergeError("Can't merge item 1 of type String with items of type Object", ['object']),
+  );
+});
+
+test('errors thrown by late values are wrapped with the output path', () => {
+  const cause = new Error('Something went wrong');
+  let error: unknown;
+  try {
+    spogtan.evaluate({
+      array: [
+        0,
+        () => {
+          throw cause;
+        },
+      ],
+    });
+  } catch (caught) {
+    error = caught;
+  }
+  expect(error).toBeInstanceOf(EvaluationError);
+  expect(error).toMatchObject({ message: 'Something went wrong (at array[1])', path: ['array', 1], cause });
+});
+
+test('tracing records the provenance of each parameter', () => {
+  const $ = spogtan<Parameters>();
+  const $item = $.wrap_with_defaults({ array: [] }, $.objectify(['string', 'array']));
+  const values = $.with({ string: 'string', array: [{ number: 1 }] }, [
+    $item({ string: $.template`${'$inherited'}?!`, array: spogtan.merge([{ number: 2 }]) }),
+  ]);
+
+  const traced = spogtan.evaluate(values, { trace: true });
+  expect(traced.value).toEqual([{ string: 'string?!', array: [{ number: 1 }, { number: 2 }] }]);
+
+  const call_site = expect.stringMatching(/^test\/index\.test\.js:\d+:\d+$/);
+  expect(traced.provenance).toEqual({
+    '[0].string': [
+      {
+        parameter: 'string',
+        steps: [
+          { kind: 'value', value: 'string', source: { method: 'with', call_site } },
+          { kind: 'template', inherited: 'string', source: { method: 'wrap', call_site } },
+        ],
+      },
+    ],
+    '[0].array': [
+      {
+        parameter: 'array',
+        steps: [
+          { kind: 'value', value: [{ number: 1 }], source: { method: 'with', call_site } },
+          { kind: 'merge', inherited: [{ number: 1 }], source: { method: 'wrap', call_site } },
+          { kind: 'default', inherited: [{ number: 1 }, { number: 2 }], source: { method: 'defaults', call_site } },
+        ],
+      },
+    ],
+  });
+
+  expect(spogtan.explain(traced, '[0]').replace(/test\/index\.test\.js:\d+:\d+/g, '<call site>')).toBe(
+    [
+      "[0] = { string: 'string?!', array: [ { number: 1 }, { number: 2 } ] }",
+      '  string (at [0].string):',
+      "    1. value 'string' from with() at <call site>",
+      "    2. template of 'string' from wrap() at <call site>",
+      '  array (at [0].array):',
+      '    1. value [ { number: 1 } ] from with() at <call site>',
+      '    2. merge of [ { number: 1 } ] from wrap() at <call site>',
+      '    3. default of [ { number: 1 }, { number: 2 } ] from defaults() at <call site>',
+    ].join('\n'),
+  );
+  expect(spogtan.explain(traced, '[0].string').split('\n').slice(0, 2)).toEqual([
+    "[0].string = 'string?!'",
+    '  string:',
+  ]);
+});
+
+test('missing parameter errors say where frames came from', () => {
+  const $ = spogtan<Parameters>();
+  expect(() => spogtan.evaluate($.with({ number: 1 }, $.get('string')))).toThrow(
+    /\{number\} from with\(\) at test\/index\.test\.js:\d+:\d+$/,
+  );
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+test('evaluateAsync awaits late values and InheritedOps', async () => {
+  const $ = spogtan<Parameters>();
+  const values = $.with(
+    { string: 'string', number: async () => 1 },
+    $.with({ number: $.inherit(async (number) => (await tick(), (number ?? 0) + 1)) }, [
+      async () => {
+        await tick();
+        // $() still finds the stack after an await
+        return { string: $('string'), number: await $.get_evaluated_async('number') };
+      },
+      $.template`${'string'} ${'number'}`,
+    ]),
+  );
+  expect(await spogtan.evaluateAsync(values)).toEqual([{ string: 'string', number: 2 }, 'string 2']);
+});
+
+test('concurrent evaluations have their own stacks', async () => {
+  const $ = spogtan<Parameters>();
+  const $item = $.wrap(async () => {
+    await tick();
+    return $.get('number');
+  });
+  const results = await Promise.all([1, 2, 3].map((number) => spogtan.evaluateAsync($item({ number }))));
+  expect(results).toEqual([1, 2, 3]);
+});
+
+test('evaluateAsync evaluates siblings concurrently', async () => {
+  const started: string[] = [];
+  const item = (name: string) => async () => {
+    started.push(name);
+    await tick();
+    expect(started).toEqual(['a', 'b', 'c']);
+    return name;
+  };
+  expect(await spogtan.evaluateAsync({ a: item('a'), nested: [item('b'), item('c')] })).toEqual({
+    a: 'a',
+    nested: ['b', 'c'],
+  });
+});
+
+test('evaluate rejects Promises', async () => {
+  const $ = spogtan<Parameters>();
+  const values = $.with({ string: async () => 'string' }, { array: [$.get('string')] });
+  expect(() => spogtan.evaluate(values)).toThrow(
+    new SpogtanError('Got a Promise, use evaluateAsync to evaluate values which return Promises', ['array', 0]),
+  );
+  await expect(spogtan.evaluateAsync(values)).resolves.toEqual({ array: ['string'] });
+
+  // $() can't wait, even within evaluateAsync
+  await expect(spogtan.evaluateAsync($.with({ number: async () => 5 }, () => ({ y: $('number') })))).rejects.toThrow(
+    new SpogtanError(
+      "Got a Promise, which $() and evaluate can't wait for, use $.get() or $.get_evaluated_async() to read parameters which are async",
+      [],
+    ),
+  );
+});
+
+const movie_schema = schema.object({
+  title: schema.string(),
+  year: schema.refine(schema.number(), Number.isInteger, 'must be a whole number'),
+  genre: schema.enum('comedy', 'sci-fi'),
+  cast: schema.optional(
+    schema.array(schema.object({ name: schema.string(), lead: schema.optional(schema.boolean()) })),
+  ),
+});
+
+test('parameters are validated against a schema', () => {
+  const $ = spogtan(movie_schema);
+  const movie: Infer<typeof movie_schema> = { title: 'Alien', year: 1979, genre: 'sci-fi' };
+  const $movie = $.wrap({ title: $.get('title'), year: () => $('year') + 1, cast: $.get('cast', false) });
+  expect(spogtan.evaluate($movie(movie))).toEqual({ title: 'Alien', year: 1980, cast: undefined });
+
+  // Frames which came from JSON aren't checked at compile time
+  const json = JSON.parse(
+    '{"title": "Bridesmaids", "year": "2011", "cast": [{"name": "Kristen Wiig", "lead": "yes", "role": "Annie"}]}',
+  );
+  let error: unknown;
+  try {
+    spogtan.evaluate({ movies: [$movie(json)] });
+  } catch (caught) {
+    error = caught;
+  }
+  expect(error).toBeInstanceOf(ValidationError);
+  expect(error).toMatchObject({
+    parameter: 'year',
+    path: ['movies', 0, 'year'],
+    message: "Invalid value for parameter year (at movies[0].year)\n  year: expected a number, got '2011'",
+  });
+  expect(() => spogtan.evaluate($movie({ ...json, year: 2011 }))).toThrow(
+    new ValidationError(
+      'cast',
+      ['cast'],
+      [
+        { path: [0, 'lead'], message: "expected a boolean, got 'yes'" },
+        { path: [0, 'role'], message: 'is not a known property' },
+      ],
+    ),
+  );
+  expect(() => spogtan.evaluate($.with({ year: () => 2011.5 }, $.get('year')))).toThrow(
+    'Invalid value for parameter year\n  year: must be a whole number',
+  );
+  expect(() => spogtan.evaluate($.with({ genre: 'drama' as never }, $.get('genre')))).toThrow(
+    "genre: expected one of 'comedy', 'sci-fi', got 'drama'",
+  );
+});
+
+test('schemas convert to JSON Schema', () => {
+  expect(spogtan.toJSONSchema(movie_schema)).toEqual({
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      year: { type: 'number' },
+      genre: { enum: ['comedy', 'sci-fi'] },
+      cast: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { name: { type: 'string' }, lead: { type: 'boolean' } },
+          required: ['name'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['title', 'year', 'genre'],
+    additionalProperties: false,
+  });
+});
+
+const deployment_schema = schema.object({
+  replicas: schema.number(),
+  imageTag: schema.string(),
+  debug: schema.boolean(),
+  tier: schema.enum('web', 'worker'),
+  awards: schema.array(schema.string()),
+});
+
+test('overrides take precedence over every Frame and are coerced to the schema', () => {
+  const $ = spogtan(deployment_schema);
+  const $deployment = $.wrap_with_defaults(
+    { debug: false, tier: 'web', awards: ['oscar'] },
+    $.objectify(['replicas', 'imageTag', 'debug', 'tier', 'awards']),
+  );
+  const config = $.with_overrides([$deployment({ replicas: 1, imageTag: 'latest' })], {
+    env: { SPOGTAN_IMAGE_TAG: 'abc123', SPOGTAN_REPLICAS: '2', HOME: '/root' },
+    set: ['replicas=3', 'debug=true', 'tier=worker'],
+    set_merge: ['awards=bafta,emmy'],
+  });
+  expect(spogtan.evaluate(config)).toEqual([
+    { replicas: 3, imageTag: 'abc123', debug: true, tier: 'worker', awards: ['oscar', 'bafta', 'emmy'] },
+  ]);
+
+  // Without sources, overrides come from the environment and those given to evaluate
+  const overrides = { set: ['replicas=4'], set_merge: ['awards=[bafta]'] };
+  expect(spogtan.evaluate($.with_overrides($deployment({ replicas: 1, imageTag: 'latest' })), { overrides })).toEqual({
+    replicas: 4,
+    imageTag: 'latest',
+    debug: false,
+    tier: 'web',
+    awards: ['oscar', 'bafta'],
+  });
+});
+
+test('overrides are checked against the schema', () => {
+  const $ = spogtan(deployment_schema);
+  const evaluate_with = (sources: OverrideSources) => spogtan.evaluate($.with_overrides($.get('replicas'), sources));
+
+  expect(() => evaluate_with({ set: ['replica=3'] })).toThrow(
+    new OverrideError('Unknown parameter replica in --set replica=3, did you mean replicas?', 'replica'),
+  );
+  expect(() => evaluate_with({ env: { SPOGTAN_IMAGETAG: 'abc' } })).toThrow(
+    'Unknown parameter SPOGTAN_IMAGETAG, did you mean SPOGTAN_IMAGE_TAG?',
+  );
+  expect(() => evaluate_with({ set: ['replicas=three'] })).toThrow(
+    "Invalid value for parameter replicas in --set replicas=three\n  replicas: expected a number, got 'three'",
+  );
+  expect(() => evaluate_with({ set: ['tier=db'] })).toThrow("tier: expected one of 'web', 'worker', got 'db'");
+  expect(() => evaluate_with({ set: ['replicas'] })).toThrow('Expected parameter=value in --set replicas');
+  expect(() => evaluate_with({ set_merge: ['awards=[1]'] })).toThrow(
+    'Invalid value for parameter awards in --set-merge awards=[1]\n  awards[0]: expected a string, got 1',
+  );
+  expect(() => spogtan.evaluate(spogtan<Parameters>().with_overrides('value', {}))).toThrow(
+    'with_overrides needs a schema to check overrides against, see spogtan(schema)',
+  );
+});
+
+interface Service {
+  name: string;
+  id: string;
+  port: number;
+}
+
+test('parameter cycles are reported with the path they were found at', () => {
+  const $ = spogtan<Service>();
+  const $service = $.wrap({ name: $.get('name'), port: $.get('port') });
+  const values = $.with(
+    { name: $.template`svc-${'id'}`, id: 'api', port: 80 },
+    {
+      services: [$service(), $service({ id: 'web' }), $service({ id: $.template`${'name'}-1` })],
+    },
+  );
+
+  let error: unknown;
+  try {
+    spogtan.evaluate(values);
+  } catch (caught) {
+    error = caught;
+  }
+  expect(error).toBeInstanceOf(CycleError);
+  expect(error).toMatchObject({
+    message: 'Parameter cycle: name -> id -> name (at services[2].name)',
+    cycle: ['name', 'id', 'name'],
+    path: ['services', 2, 'name'],
+  });
+  // Looking up a parameter's inherited value isn't a cycle
+  expect(spogtan.evaluate($.with({ id: 'api' }, $.with({ id: $.template`${'$inherited'}-2` }, $.get('id'))))).toBe(
+    'api-2',
+  );
+});
+
+test('parameter values are reused for lookups with the same Frames', () => {
+  const $ = spogtan<Service>();
+  let calls = 0;
+  const port = () => {
+    calls += 1;
+    return 8080;
+  };
+  const values = $.with({ port }, [$.get('port'), $.get('port'), $.with({ port: 80 }, $.get('port')), $.get('port')]);
+
+  expect(spogtan.evaluate(values)).toEqual([8080, 8080, 80, 8080]);
+  expect(calls).toBe(1);
+  expect(spogtan.evaluate(values, { memoize: false })).toEqual([8080, 8080, 80, 8080]);
+  expect(calls).toBe(4);
+});
+
+test('memoization speeds up parameters which depend on other parameters', () => {
+  // Each parameter is built from the two before it, so without memoization the number of lookups grows exponentially
+  const $ = spogtan<Record<string, string>>();
+  let calls = 0;
+  const frame: Frame<Record<string, string>> = {
+    p0: () => {
+      calls += 1;
+      return 'x';
+    },
+    p1: 'y',
+  };
+  for (let i = 2; i <= 18; ++i) {
+    frame[`p${i}`] = () => `${$(`p${i - 1}`).length % 10}${$(`p${i - 2}`).length % 10}`;
+  }
+  const values = $.with(frame, $.get('p18'));
+
+  const memoized = spogtan.evaluate(values);
+  expect(calls).toBe(1);
+
+  calls = 0;
+  expect(spogtan.evaluate(values, { memoize: false })).toBe(memoized);
+  expect(calls).toBe(1597);
+});
+
+test('lookups within a traced evaluation give their values', () => {
+  const $ = spogtan<Service>();
+  const values = $.with({ name: 'api', id: () => `${$('name')}-1` }, { id: $.get('id'), name: () => $('name') + '!' });
+  const traced = spogtan.evaluate(values, { trace: true });
+  expect(traced.value).toEqual({ id: 'api-1', name: 'api!' });
+  expect(traced.provenance).toMatchObject({
+    id: [{ parameter: 'name' }, { parameter: 'id' }],
+    name: [{ parameter: 'name' }],
+  });
+});
+
+interface Container {
+  name: string;
+  image: string;
+  args: string[];
+  resources: { limits: { cpu: string; memory: string }; requests?: { cpu: string } };
+  env: { name: string; value: string }[];
+}
+
+interface Pod {
+  container: Partial<Container>;
+  containers: Partial<Container>[];
+  labels: Record<string, string>;
+}
+
+test('deep merges keep nested siblings and delete tombstoned keys', () => {
+  const $ = spogtan<Pod>();
+  const base = {
+    name: 'app',
+    image: 'app:1',
+    args: ['--port=80'],
+    resources: { limits: { cpu: '1', memory: '512Mi' }, requests: { cpu: '100m' } },
+  };
+  const values = $.with(
+    { container: base },
+    $.with(
+      {
+        container: spogtan.deepMerge<Partial<Container>>({
+          args: ['--debug'],
+          resources: { limits: { memory: '1Gi' }, requests: spogtan.merge.delete },
+        }),
+      },
+      $.get('container'),
+    ),
+  );
+  expect(spogtan.evaluate(values)).toEqual({
+    name: 'app',
+    image: 'app:1',
+    args: ['--debug'],
+    resources: { limits: { cpu: '1', memory: '1Gi' } },
+  });
+
+  // As a plain value, the items are merged onto each other
+  expect(
+    spogtan.evaluate({
+      labels: spogtan.deepMerge({ app: 'web', tier: 'frontend' }, () => ({ tier: spogtan.merge.delete })),
+    }),
+  ).toEqual({ labels: { app: 'web' } });
+  // Shallow merges delete keys too
+  expect(spogtan.evaluate(spogtan.merge({ a: 1, b: 2 }, { b: spogtan.merge.delete }))).toEqual({ a: 1 });
+  // but tombstones within the values they merge have nothing to delete
+  expect(spogtan.evaluate(spogtan.merge({ a: { b: 1 } }, { a: { c: spogtan.merge.delete } }))).toEqual({ a: {} });
+  expect(spogtan.evaluate(spogtan.merge([1], [spogtan.merge.delete, 2]))).toEqual([1, 2]);
+});
+
+test('items deep merged by key can be deleted', () => {
+  const merge_containers = spogtan.deepMerge.with({ strategies: { '': { union_by_key: 'name' } } });
+  const containers = merge_containers<Partial<Container>[]>(
+    [{ name: 'app' }, { name: 'sidecar', image: 'proxy' }],
+    [spogtan.merge.delete_item('sidecar'), spogtan.merge.delete_item('missing'), { name: 'migrate' }],
+  );
+  expect(spogtan.evaluate(containers)).toEqual([{ name: 'app' }, { name: 'migrate' }]);
+});
+
+test('deep merges use the strategy for each path', () => {
+  const $ = spogtan<Pod>();
+  const merge_containers = spogtan.deepMerge.with({
+    strategies: {
+      '': { union_by_key: 'name' },
+      '[].args': 'prepend',
+      '[].env': { union_by_key: 'name' },
+      '[].resources': 'replace',
+    },
+  });
+  const values = $.with(
+    {
+      containers: [
+        {
+          name: 'app',
+          args: ['serve'],
+          env: [{ name: 'A', value: '1' }],
+          resources: { limits: { cpu: '1', memory: '1Gi' } },
+        },
+        { name: 'sidecar', image: 'proxy' },
+      ],
+    },
+    $.with(
+      {
+        containers: merge_containers<Partial<Container>[]>([
+          {
+            name: 'app',
+            args: ['--verbose'],
+            env: [
+              { name: 'A', value: '2' },
+              { name: 'B', value: '3' },
+            ],
+            resources: { limits: { cpu: '2', memory: '2Gi' } },
+          },
+          { name: 'migrate', image: 'app' },
+        ]),
+      },
+      $.get('containers'),
+    ),
+  );
+  expect(spogtan.evaluate(values)).toEqual([
+    {
+      name: 'app',
+      args: ['--verbose', 'serve'],
+      env: [
+        { name: 'A', value: '2' },
+        { name: 'B', value: '3' },
+      ],
+      resources: { limits: { cpu: '2', memory: '2Gi' } },
+    },
+    { name: 'sidecar', image: 'proxy' },
+    { name: 'migrate', image: 'app' },
+  ]);
+
+  const append_args = spogtan.deepMerge.with({ strategies: { 'spec.*.args': 'append' } });
+  expect(spogtan.evaluate(append_args({ spec: { app: { args: ['a'] } } }, { spec: { app: { args: ['b'] } } }))).toEqual(
+    { spec: { app: { args: ['a', 'b'] } } },
+  );
+  expect(() =>
+    spogtan.evaluate({ object: append_args({ spec: { app: { args: ['a'] } } }, { spec: { app: { args: 'b' } } }) }),
+  ).toThrow(new MergeError("Can't append String onto Array", ['object', 'spec', 'app', 'args']));
+});
+
+interface App {
+  name: string;
+  port: number;
+}
+
+test('refs resolve to anchored values from elsewhere in the evaluation', () => {
+  const $ = spogtan<App>();
+  const deployment = $.anchor('deployment', {
+    kind: 'Deployment',
+    metadata: { name: () => `${$('name')}-deployment`, labels: { app: $.get('name') } },
+  });
+  // The service comes before the deployment, so the evaluation takes a second pass
+  const service = {
+    kind: 'Service',
+    selector: $.ref(deployment).metadata.labels,
+    description: () => `Serves ${$.ref(deployment).metadata.name()} on port ${$('port')}`,
+  };
+  expect(spogtan.evaluate($.with({ name: 'web', port: 80 }, [service, deployment]))).toEqual([
+    { kind: 'Service', selector: { app: 'web' }, description: 'Serves web-deployment on port 80' },
+    { kind: 'Deployment', metadata: { name: 'web-deployment', labels: { app: 'web' } } },
+  ]);
+
+  // Refs by name, to anchors within anchors
+  const rule = $.anchor('rule', { record: 'job:errors:rate5m', expr: 'rate(errors[5m])' });
+  const alert = { alert: 'HighErrors', expr: () => `${$.ref<{ record: string }>('rule').record()} > 0.1` };
+  expect(spogtan.evaluate($.anchor('rules', { alerts: [alert], records: [rule] }))).toEqual({
+    alerts: [{ alert: 'HighErrors', expr: 'job:errors:rate5m > 0.1' }],
+    records: [{ record: 'job:errors:rate5m', expr: 'rate(errors[5m])' }],
+  });
+});
+
+test('unresolvable refs are reported', () => {
+  const $ = spogtan<App>();
+  const capture = (value: unknown) => {
+    try {
+      spogtan.evaluate(value);
+    } catch (error) {
+      return error;
+    }
+  };
+
+  const dangling = capture({ services: [{ selector: $.ref('deploymnet').metadata.labels }] });
+  expect(dangling).toBeInstanceOf(RefError);
+  expect(dangling).toMatchObject({
+    message: 'Reference to unknown anchor deploymnet (at services[0].selector)',
+    anchor: 'deploymnet',
+  });
+
+  const a = $.anchor('a', { b: $.ref('b').value });
+  const b = $.anchor('b', { value: () => $.ref(a).b() });
+  expect(capture([a, b])).toMatchObject({ message: 'Reference cycle: b -> a -> b (at [0].b)' });
+  expect(capture([$.anchor('a', 1), $.anchor('a', 2)])).toMatchObject({
+    message: 'Anchor a is defined more than once, at [0] and [1] (at [1])',
+  });
+});
+
+test('refs resolve in async evaluations', async () => {
+  const $ = spogtan<App>();
+  const port = $.anchor('port', async () => 8080);
+  const probe = { port: $.ref(port) };
+  expect(await spogtan.evaluateAsync({ probe, container: { port } })).toEqual({
+    probe: { port: 8080 },
+    container: { port: 8080 },
+  });
+});
+
+interface Variant {
+  env: 'dev' | 'prod';
+  region: 'us' | 'eu';
+  replicas: number;
+  variant: string;
+}
+
+test('matrix makes a copy of the body for each combination', () => {
+  const $ = spogtan<Variant>();
+  const service = $.objectify(['env', 'region', 'replicas', 'variant']);
+  const services = $.matrix({ env: ['dev', 'prod'], region: ['us', 'eu'] }, service, {
+    exclude: [{ env: 'dev', region: 'eu' }],
+    frame: ({ env }) => (env === 'prod' ? { replicas: 3 } : {}),
+    key: ({ env, region }) => `${env}-${region}`,
+    id: 'variant',
+  });
+  // The keys are typed after the combinations
+  const prod_us: () => unknown = services['prod-us'];
+  expect(prod_us).toBeInstanceOf(Function);
+  // @ts-expect-error There's no staging environment
+  expect(services['staging-us']).toBeUndefined();
+
+  expect(spogtan.evaluate($.with({ replicas: 1 }, services))).toEqual({
+    'dev-us': { env: 'dev', region: 'us', replicas: 1, variant: 'dev-us' },
+    'prod-us': { env: 'prod', region: 'us', replicas: 3, variant: 'prod-us' },
+    'prod-eu': { env: 'prod', region: 'eu', replicas: 3, variant: 'prod-eu' },
+  });
+});
+
+test('each makes a copy of the body for each value of a parameter', () => {
+  const $ = spogtan<Variant>();
+  const regions = $.each('region', ['us'], $.template`${'variant'} in ${'region'}`, {
+    include: [{ region: 'eu' }],
+    id: 'variant',
+  });
+  expect(spogtan.evaluate(regions)).toEqual(['us in us', 'eu in eu']);
+  // @ts-expect-error There's no varaint parameter
+  $.each('region', ['us'], 'value', { id: 'varaint' });
+  expect(() => $.each('region', ['us', 'eu'], 'value', { key: () => 'same' })).toThrow(
+    'More than one combination has the key same',
+  );
+});
+
+interface Database {
+  user: string;
+  password: Secret<string>;
+  url: string;
+}
+
+test('secrets are redacted until they are revealed', () => {
+  const $ = spogtan<Database>();
+  const password = $.secret(() => 'hunter2');
+  const config = $.with(
+    { user: 'admin', password },
+    { user: $.get('user'), password: $.get('password'), url: $.template`db://${'user'}:${'password'}@db` },
+  );
+
+  const evaluated = spogtan.evaluate(config);
+  expect(evaluated.password).toBeInstanceOf(Secret);
+  expect(util.inspect(evaluated)).toBe("{ user: 'admin', password: <redacted>, url: <redacted> }");
+  expect(`${evaluated.url}`).toBe('<redacted>');
+  expect(spogtan.secretPaths(evaluated)).toEqual(['password', 'url']);
+  expect(toJSON(evaluated)).toBe('{\n  "user": "admin",\n  "password": "<redacted>",\n  "url": "<redacted>"\n}\n');
+  expect(toYAML(evaluated, { reveal_secrets: true })).toBe(
+    'user: admin\npassword: hunter2\nurl: db://admin:hunter2@db\n',
+  );
+  expect(spogtan.evaluate(config, { reveal_secrets: true })).toEqual({
+    user: 'admin',
+    password: 'hunter2',
+    url: 'db://admin:hunter2@db',
+  });
+
+  // Merges with a secret in them are secret, and traces don't show them
+  expect(spogtan.evaluate(spogtan.merge<string, never>('postgres://', password as never))).toBeInstanceOf(Secret);
+  const traced = spogtan.evaluate($.with({ password }, { password: $.get('password') }), { trace: true });
+  expect(spogtan.explain(traced, 'password')).toMatch(
+    /^password = <redacted>\n {2}password:\n {4}1. value <redacted> from/,
+  );
+});
+
+test('secret schemas check the secret value without showing it', () => {
+  const $ = spogtan(
+    schema.object({ password: schema.secret(schema.refine(schema.string(), (p) => p.length > 8, 'is too short')) }),
+  );
+  expect(() => spogtan.evaluate($.with({ password: $.secret('hunter2') }, $.get('password')))).toThrow(
+    'Invalid value for parameter password\n  password: is too short',
+  );
+  expect(() => spogtan.evaluate($.with({ password: 'hunter2' as never }, $.get('password')))).toThrow(
+    'password: expected a secret, see $.secret()',
+  );
+  expect(() => spogtan.evaluate($.with_overrides($.get('password'), { set: ['password=hunter2'] }))).toThrow(
+    'Invalid value for parameter password in --set password=<redacted>\n  password: is too short',
+  );
+
+  // Merges onto secrets are checked too, and never show their value
+  const $tokens = spogtan(
+    schema.object({ tokens: schema.secret(schema.array(schema.string())), name: schema.string() }),
+  );
+  expect(() =>
+    spogtan.evaluate($tokens.with_overrides($tokens.get('name'), { set: ['name=web'], set_merge: ['tokens=[1]'] })),
+  ).toThrow('Invalid value for parameter tokens in --set-merge tokens=<redacted>\n  tokens[0]: expected a string');
+  const unread = $tokens.with_overrides($tokens.get('name'), { set: ['name=web'], set_merge: ['tokens=hunter2'] });
+  expect(() => spogtan.evaluate(unread, { unused: 'error' })).toThrow(
+    'Parameters were set but never read:\n  tokens from --set-merge tokens=<redacted>',
+  );
+  const merged = $tokens.with_overrides($tokens.get('tokens'), { set_merge: ['tokens=["hunter2"]'] });
+  const traced = spogtan.evaluate(merged, { trace: true });
+  expect(traced.value).toBeInstanceOf(Secret);
+  expect(spogtan.explain(traced, '')).not.toContain('hunter2');
+  expect(toYAML(traced.value, { reveal_secrets: true })).toBe('- hunter2\n');
+  expect(spogtan.toJSONSchema(schema.secret(schema.string()))).toMatchObject({ type: 'string', writeOnly: true });
+});
+
+test('parameters which are set but never read are reported', () => {
+  const $ = spogtan<Parameters>();
+  // Casts like this let typos through
+  const frame = { string: 'a', numbr: 1 } as Frame<Parameters>;
+  const config = $.with(frame, $.with({ boolean: true }, { string: $.get('string'), number: $.get('number', false) }));
+  expect(spogtan.evaluate(config)).toEqual({ string: 'a', number: undefined });
+  expect(() => spogtan.evaluate(config, { unused: 'error' })).toThrow(
+    /^Parameters were set but never read:\n {2}numbr from with\(\) at test\/index\.test\.js:\d+:\d+, did you mean number\?\n {2}boolean from with\(\) at test\/index\.test\.js:\d+:\d+$/,
+  );
+  try {
+    spogtan.evaluate(config, { unused: 'error' });
+  } catch (error) {
+    expect(error).toBeInstanceOf(UnusedParameterError);
+    expect((error as UnusedParameterError).unused).toMatchObject([
+      { parameter: 'numbr', did_you_mean: 'number' },
+      { parameter: 'boolean', did_you_mean: undefined },
+    ]);
+  }
+
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  try {
+    expect(spogtan.evaluate(config, { unused: 'warn' })).toEqual({ string: 'a', number: undefined });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringMatching(/^Warning: Parameters were set but never read:\n {2}numbr/),
+    );
+  } finally {
+    warn.mockRestore();
+  }
+
+  // Values which InheritedOps are given count as read, even if the op ignores them
+  const inherited = $.with({ string: 'a' }, $.with({ string: $.default('b') }, $.get('string')));
+  expect(spogtan.evaluate(inherited, { unused: 'error' })).toBe('a');
+});
+
+test('overrides which are shadowed by other overrides are reported', () => {
+  const $ = spogtan(deployment_schema);
+  const $deployment = $.wrap_with_defaults(
+    { debug: false, tier: 'web', awards: ['oscar'] },
+    $.objectify(['replicas', 'imageTag', 'debug', 'tier', 'awards']),
+  );
+  const config = $.with_overrides(
+    $.with_overrides($deployment({ replicas: 1, imageTag: 'latest' }), { set: ['replicas=3'] }),
+    { env: { SPOGTAN_REPLICAS: '2', SPOGTAN_TIER: 'web' }, set: ['tier=worker'] },
+  );
+  expect(() => spogtan.evaluate(config, { unused: 'error' })).toThrow(
+    'Parameters were set but never read:\n' +
+      '  replicas from SPOGTAN_REPLICAS, shadowed by --set replicas=3\n' +
+      '  tier from SPOGTAN_TIER, shadowed by --set tier=worker',
+  );
+});
+
+// Evaluates to a Kubernetes style quantity, e.g. 512Mi
+class Quantity implements SelfEvaluating<string> {
+  constructor(readonly amount: () => unknown, readonly unit: string) {}
+
+  [spogtan.evaluateSymbol]() {
+    return () => `${spogtan.evaluate(this.amount)}${this.unit}`;
+  }
+}
+
+test('Maps and Sets are evaluated, and other class instances are kept as they are', async () => {
+  const $ = spogtan<{ name: string; memory: number }>();
+  const date = new Date('2024-01-02T03:04:05Z');
+  const url = new URL('https://example.com/');
+  const config = $.with(
+    { name: 'web', memory: 512 },
+    {
+      date,
+      url,
+      buffer: Buffer.from('hi'),
+      labels: new Map([['app', $.get('name')]]),
+      tags: new Set([$.get('name'), 'prod']),
+      memory: new Quantity($.get('memory'), 'Mi'),
+    },
+  );
+
+  for (const evaluated of [spogtan.evaluate(config), await spogtan.evaluateAsync(config)]) {
+    expect(evaluated.date).toBe(date);
+    expect(evaluated.url).toBe(url);
+    expect(evaluated.buffer).toEqual(Buffer.from('hi'));
+    expect(evaluated.labels).toEqual(new Map([['app', 'web']]));
+    expect(evaluated.tags).toEqual(new Set(['web', 'prod']));
+    expect(evaluated.memory).toBe('512Mi');
+  }
+  // The evaluated types match
+  const evaluated = spogtan.evaluate(config);
+  const labels: Map<string, string> = evaluated.labels;
+  const tags: Set<string> = evaluated.tags;
+  const memory: string = evaluated.memory;
+  expect([labels.size, tags.size, memory]).toEqual([1, 2, '512Mi']);
+
+  expect(() => spogtan.evaluate({ labels: new Map([['app', $.get('name')]]) })).toThrow(
+    'Tried to get a parameter outside of an evaluation',
+  );
+  expect(() => spogtan.evaluate($.with({}, { labels: new Map([['app', $.get('name')]]) }))).toThrow(
+    /^Missing required parameter name \(at labels\.app\)/,
+  );
+});
+
+interface JestConfig {
+  testMatch: string[];
+  transform: (path: string) => string;
+  reporters: unknown[];
+}
+
+test('literals are returned as they are, including functions', async () => {
+  const $ = spogtan<JestConfig>();
+  const transform = (path: string) => path.toUpperCase();
+  const reporter = () => 'reported';
+  const config = $.with(
+    { testMatch: ['*.test.js'], transform: $.literal(transform), reporters: spogtan.raw([reporter, 'default']) },
+    {
+      testMatch: $.get('testMatch'),
+      transform: $.get('transform'),
+      reporters: $.get('reporters'),
+      nested: spogtan.raw({ late: reporter }),
+    },
+  );
+  for (const evaluated of [spogtan.evaluate(config), await spogtan.evaluateAsync(config)]) {
+    expect(evaluated).toEqual({
+      testMatch: ['*.test.js'],
+      transform,
+      reporters: [reporter, 'default'],
+      nested: { late: reporter },
+    });
+  }
+  // Function literals keep their signature
+  const evaluated: string = spogtan.evaluate($.literal(transform))('a');
+  expect(evaluated).toBe('A');
+
+  // Merges of literal arrays and objects keep their functions
+  const merged = $.with(
+    { reporters: spogtan.raw([reporter]) },
+    $.with({ reporters: spogtan.merge(spogtan.raw([transform])) }, $.get('reporters')),
+  );
+  expect(spogtan.evaluate(merged)).toEqual([reporter, transform]);
+  expect(
+    spogtan.evaluate(spogtan.merge<Record<string, unknown>, unknown>(spogtan.raw({ a: reporter }), { b: () => 'b' })),
+  ).toEqual({
+    a: reporter,
+    b: 'b',
+  });
+  expect(spogtan.evaluate(spogtan.deepMerge({ a: spogtan.raw({ f: reporter }) }, { a: { g: 1 } }))).toEqual({
+    a: { f: reporter, g: 1 },
+  });
+});
+
+interface Website {
+  name: string;
+  year: number;
+  service: { port: number; host?: string; labels: Record<string, string> };
+  config: { debug: boolean; replicas: number };
+}
+
+test('templates take parameter paths, late values and filters', () => {
+  const $ = spogtan<Website>();
+  spogtan.registerFilter('quote', (value, quote = '"') => `${quote}${value}${quote}`);
+  const frame = {
+    name: 'My Web App',
+    year: 2023,
+    service: { port: 80, labels: { tier: 'web' } },
+    config: { debug: false, replicas: 2 },
+  };
+  const evaluate = (template: unknown) => spogtan.evaluate($.with(frame, template));
+
+  expect(evaluate($.template`${'service.host | default("localhost")'}:${'service.port'}`)).toBe('localhost:80');
+  expect(evaluate($.template`${'name | slug'}-${() => $('year') + 1}`)).toBe('my-web-app-2024');
+  expect(evaluate($.template`${'name | upper | quote'}`)).toBe('"MY WEB APP"');
+  expect(evaluate($.template`${"name | quote('|')"}`)).toBe('|My Web App|');
+  expect(evaluate($.template`labels: ${'service.labels'}`)).toBe('labels: {"tier":"web"}');
+  expect(evaluate($.template`config: |\n  ${'config | yaml | indent(2)'}\n`)).toBe(
+    'config: |\n  debug: false\n  replicas: 2\n',
+  );
+  expect(evaluate($.template`${'config | json'}`)).toBe('{"debug":false,"replicas":2}');
+  expect(evaluate($.with({ name: $.template`${'$inherited | lower'}!` }, $.get('name')))).toBe('my web app!');
+
+  // Paths and parameters are checked
+  // @ts-expect-error
+  expect(() => $.template`${'service.prot'}`).not.toThrow();
+  expect(() => evaluate($.template`${'service.prot' as 'service.port'}`)).toThrow(
+    "Template path service.prot doesn't exist, service has no property prot",
+  );
+  expect(() => evaluate($.template`${'service.port | reverse'}`)).toThrow(
+    /^Unknown template filter reverse in service.port \| reverse, choose one of upper, lower, slug, .*, quote/,
+  );
+  expect(() => $.template`${'service.port | indent(two)'}`).toThrow(
+    'Invalid filter argument two in template: service.port | indent(two), strings must be quoted',
+  );
+});
+
+interface Postgres {
+  port: number;
+  host: string;
+}
+
+interface Monitoring {
+  scrape_interval: string;
+}
+
+type Platform = { env: string } & Namespace<'db', Postgres> & Namespace<'web', { port: number }>;
+
+// A component written against its own Parameters, which doesn't know the namespace it'll be used in
+const postgres = ($: CallableSpogtan<Postgres>) => ({ url: $.template`postgres://${'host'}:${'port'}` });
+
+test('extended instances share a stack, and scopes namespace parameters', () => {
+  const $ = spogtan<Platform>();
+  const $monitoring = $.extend<Monitoring>();
+  const $web = $.scope('web');
+
+  const value = $.with(
+    { env: 'prod', 'db.port': 5432, 'web.port': 80 },
+    $monitoring.with(
+      { scrape_interval: '30s' },
+      {
+        db: $.scope('db', ($db) => $db.with({ host: 'db.internal' }, postgres($db))),
+        web: $web.with({ port: $web.inherit((port) => (port ?? 0) + 8000) }, { port: $web.get('port') }),
+        ports: () => [$('db.port'), $('web.port')],
+        monitoring: $monitoring.template`${'env'}: every ${'scrape_interval'}, db on ${'db.port'}`,
+      },
+    ),
+  );
+  expect(spogtan.evaluate(value)).toEqual({
+    db: { url: 'postgres://db.internal:5432' },
+    web: { port: 8080 },
+    ports: [5432, 80],
+    monitoring: 'prod: every 30s, db on 5432',
+  });
+
+  // Namespaced parameters are reported by their full name
+  expect(() => spogtan.evaluate($.with({ env: 'prod' }, $.scope('db', postgres)))).toThrow(MissingParameterError);
+  expect(() => spogtan.evaluate($.with({ env: 'prod' }, $.scope('db', postgres)))).toThrow(/db\.host/);
+
+  // Scopes only have the parameters in their namespace
+  // @ts-expect-error
+  $web.get('host');
+  // @ts-expect-error
+  $monitoring.scope('web').with({ scrape_interval: '1m' }, {});
+});
+
+test('extended instances check the parameters of both schemas', () => {
+  const $ = spogtan(schema.object({ 'db.port': schema.number() }));
+  const $app = $.extend(schema.object({ name: schema.string() }));
+  const value = $app.with(
+    { name: 'app' },
+    $.scope('db', ($db) => $db.with({ port: 'x' as never }, $app.get('db.port'))),
+  );
+  expect(() => spogtan.evaluate(value)).toThrow(ValidationError);
+  expect(spogtan.evaluate($app.with({ 'db.port': 5432, name: 'app' }, $app.template`${'name'}:${'db.port'}`))).toBe(
+    'app:5432',
+  );
+});
+
+interface Film {
+  title: string;
+  year: number;
+  genre: string;
+  tag_line: string | null;
+}
+
+test('components must be given their required parameters', () => {
+  const $ = spogtan<Film>();
+  const $film = $.component(
+    { required: ['title', 'year', 'genre'], defaults: { tag_line: null } },
+    { id: () => `${$('title').toLowerCase()}-${$('year')}` },
+  );
+
+  const comedies = $.with({ genre: 'comedy' }, [$film({ title: 'Bridesmaids', year: 2011 })]);
+  const film: { title: string; year: number; genre: string; tag_line: string | null; id: string }[] =
+    spogtan.evaluate(comedies);
+  expect(film).toEqual([{ title: 'Bridesmaids', year: 2011, genre: 'comedy', tag_line: null, id: 'bridesmaids-2011' }]);
+  expect(
+    spogtan.evaluate({ films: [$film({ title: 'Alien', year: 1979, genre: 'sci-fi', tag_line: 'Scream' })] }),
+  ).toEqual({ films: [{ title: 'Alien', year: 1979, genre: 'sci-fi', tag_line: 'Scream', id: 'alien-1979' }] });
+
+  // The genre isn't set by the component's Frame or an enclosing with
+  const genreless = { films: [$film({ title: 'Bridesmaids', year: 2011 })] };
+  // @ts-expect-error Missing required parameter genre
+  expect(() => spogtan.evaluate(genreless)).toThrow(MissingParameterError);
+  // @ts-expect-error Missing required parameter year
+  expect(() => spogtan.evaluate($.with({ genre: 'comedy' }, $film({ title: 'Bridesmaids' })))).toThrow(
+    MissingParameterError,
+  );
+  // @ts-expect-error There's no such parameter
+  $.component({ required: ['title'], defaults: { rating: 5 } });
+});
+
+test('diffs match list items by their identity', () => {
+  const before = { services: [{ id: 'a', port: 1 }, { id: 'b', port: 2 }, { port: 3 }], removed: true };
+  const after = { services: [{ id: 'b', port: 2 }, { port: 4 }, { id: 'a', port: 1, tls: true }], added: [1] };
+  expect(spogtan.diff(before, after, { keys: ['id'] })).toEqual([
+    { kind: 'changed', path: ['services', 1, 'port'], before: 3, after: 4 },
+    { kind: 'added', path: ['services', 2, 'tls'], after: true },
+    { kind: 'removed', path: ['removed'], before: true },
+    { kind: 'added', path: ['added'], after: [1] },
+  ]);
+  expect(spogtan.formatDiff(spogtan.diff(before, after))).toBe(
+    [
+      "~ services[0].id: 'a' -> 'b'",
+      '~ services[0].port: 1 -> 2',
+      "- services[1].id: 'b'",
+      '~ services[1].port: 2 -> 4',
+      '~ services[2].port: 3 -> 1',
+      "+ services[2].id: 'a'",
+      '+ services[2].tls: true',
+      '- removed: true',
+      '+ added: [ 1 ]',
+      '9 changes: 3 added, 2 removed, 4 changed',
+    ].join('\n'),
+  );
+});
@@ -1,13 +1,91 @@
 import * as spogtan_lib from './lib/spogtan';
+import * as trace_lib from './lib/trace';
+import * as schema_lib from './lib/schema';
+import * as overrides_lib from './lib/overrides';
+import * as secret_lib from './lib/secret';
+import * as template_lib from './lib/template';
+import * as diff_lib from './lib/diff';
+
+export {
+  SpogtanError,
+  MissingParameterError,
+  CycleError,
+  RefError,
+  UnusedParameterError,
+  ValidationError,
+  OverrideError,
+  MergeError,
+  EvaluationError,
+} from './lib/errors';
+export type { CheckIssue, FrameSummary } from './lib/errors';
+export { Secret } from './lib/secret';
+export type {
+  CallableSpogtan,
+  Component,
+  EvaluateOptions,
+  Frame,
+  InheritedOp,
+  Literal,
+  MissingParameters,
+  Namespace,
+  Scoped,
+  SelfEvaluating,
+} from './lib/spogtan';
+export type { OverrideSources } from './lib/overrides';
+export type { UnusedParameter } from './lib/usage';
+export type { MergeStrategy, DeepMergeOptions } from './lib/merge';
+export type { Anchor, Ref } from './lib/refs';
+export type { Axes, Combination, MatrixOptions } from './lib/matrix';
+export type { Change, DiffOptions } from './lib/diff';
+export type { TemplateFilter, TemplateExpression, ParameterPath } from './lib/template';
+export type { Schema, ObjectSchema, OptionalSchema, Infer, JSONSchema, SchemaIssue } from './lib/schema';
+export type { Traced, Provenance, ParameterTrace, TraceStep, FrameSource, OpKind } from './lib/trace';
+
+// Combinators for building a runtime Schema of Parameters, e.g. schema.object({ year: schema.number() })
+export const schema = {
+  string: schema_lib.string,
+  number: schema_lib.number,
+  boolean: schema_lib.boolean,
+  enum: schema_lib.enumeration,
+  array: schema_lib.array,
+  object: schema_lib.object,
+  optional: schema_lib.optional,
+  refine: schema_lib.refine,
+  secret: schema_lib.secret,
+};
 
 // Constructs a Spogtan object, and gives it the right type.
-export function spogtan<Parameters>(): spogtan_lib.Spogtan<Parameters> &
-  spogtan_lib.Spogtan<Parameters>['get_evaluated'] {
-  return new spogtan_lib.Spogtan<Parameters>() as spogtan_lib.Spogtan<Parameters> &
-    spogtan_lib.Spogtan<Parameters>['get_evaluated'];
+// If a `schema` is given, Parameters are inferred from it and parameter values are checked against it.
+export function spogtan<Parameters>(
+  schema?: schema_lib.ObjectSchema<Parameters>,
+): spogtan_lib.CallableSpogtan<Parameters> {
+  return new spogtan_lib.Spogtan<Parameters>(schema) as spogtan_lib.CallableSpogtan<Parameters>;
 }
 spogtan.evaluate = spogtan_lib.evaluate;
+spogtan.evaluateAsync = spogtan_lib.evaluateAsync;
 spogtan.merge = spogtan_lib.merge;
+spogtan.deepMerge = spogtan_lib.deepMerge;
+spogtan.evaluateSymbol = spogtan_lib.evaluate_symbol;
+spogtan.raw = spogtan_lib.literal;
+spogtan.explain = trace_lib.explain;
+spogtan.schema = schema;
+spogtan.toJSONSchema = schema_lib.toJSONSchema;
+spogtan.loadOverrides = overrides_lib.load_overrides;
+spogtan.secretPaths = secret_lib.secret_paths;
+spogtan.registerFilter = template_lib.register_filter;
+spogtan.diff = diff_lib.diff;
+spogtan.formatDiff = diff_lib.format_diff;
 
 export const evaluate = spogtan_lib.evaluate;
+export const evaluateAsync = spogtan_lib.evaluateAsync;
 export const merge = spogtan_lib.merge;
+export const deepMerge = spogtan_lib.deepMerge;
+export const evaluateSymbol = spogtan_lib.evaluate_symbol;
+export const raw = spogtan_lib.literal;
+export const explain = trace_lib.explain;
+export const toJSONSchema = schema_lib.toJSONSchema;
+export const loadOverrides = overrides_lib.load_overrides;
+export const secretPaths = secret_lib.secret_paths;
+export const registerFilter = template_lib.register_filter;
+export const diff = diff_lib.diff;
+export const formatDiff = diff_lib.format_diff;
@@ -0,0 +1,177 @@
+import { spogtan } from './index';
+import { $k8s, deployment, stateful_set, service, ingress, config_map, overlay, list, toManifests } from './k8s';
+import type { ConfigMap, Deployment, Ingress, KubernetesObject, Service } from './k8s';
+import { FormatError } from './format';
+
+const web = $k8s.with(
+  { name: 'web', image: 'nginx:1.21', ports: { http: 80, metrics: 9090 }, labels: { team: 'platform' } },
+  [
+    deployment({ env: { LOG_LEVEL: 'info' } }),
+    service(),
+    ingress({ host: 'example.com' }),
+    config_map({ name: 'web-config', data: { 'nginx.conf': 'events {}' } }),
+  ],
+);
+
+test('components are consistent with each other', () => {
+  const [web_deployment, web_service, web_ingress, web_config] = spogtan.evaluate(web) as [
+    Deployment,
+    Service,
+    Ingress,
+    ConfigMap,
+  ];
+  const labels = { team: 'platform', 'app.kubernetes.io/name': 'web' };
+  expect(web_deployment).toEqual({
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: { name: 'web', labels },
+    spec: {
+      replicas: 1,
+      selector: { matchLabels: { 'app.kubernetes.io/name': 'web' } },
+      template: {
+        metadata: { labels },
+        spec: {
+          containers: [
+            {
+              name: 'web',
+              image: 'nginx:1.21',
+              ports: [
+                { name: 'http', containerPort: 80 },
+                { name: 'metrics', containerPort: 9090 },
+              ],
+              env: [{ name: 'LOG_LEVEL', value: 'info' }],
+            },
+          ],
+        },
+      },
+    },
+  });
+  expect(web_service.spec.selector).toEqual(web_deployment.spec.selector.matchLabels);
+  expect(web_service.spec.ports).toEqual([
+    { name: 'http', port: 80, targetPort: 'http' },
+    { name: 'metrics', port: 9090, targetPort: 'metrics' },
+  ]);
+  // Like the Deployment's container, a Service without ports leaves them out
+  expect(spogtan.evaluate($k8s.with({ name: 'worker', image: 'worker:1' }, service())).spec).toEqual({
+    selector: { 'app.kubernetes.io/name': 'worker' },
+  });
+  expect(web_ingress.spec.rules).toEqual([
+    {
+      host: 'example.com',
+      http: {
+        paths: [{ path: '/', pathType: 'Prefix', backend: { service: { name: 'web', port: { name: 'http' } } } }],
+      },
+    },
+  ]);
+  expect(web_config.metadata.name).toBe('web-config');
+});
+
+test('components take async parameters with evaluateAsync', async () => {
+  const objects = (value: <T>(value: T) => T | (() => Promise<T>)) =>
+    $k8s.with({ name: value('web'), image: value('nginx:1.21'), ports: value({ http: 80 }), patches: value({}) }, [
+      deployment({ env: value({ LOG_LEVEL: 'info' }), labels: value({ team: 'platform' }) }),
+      stateful_set({ replicas: value(3) }),
+      service({ annotations: value({ owner: 'platform' }) }),
+      ingress({ host: value('example.com'), path: value('/web') }),
+      config_map({ namespace: value('apps'), data: value({ 'nginx.conf': 'events {}' }) }),
+    ]);
+  const evaluated = await spogtan.evaluateAsync(
+    objects(
+      <T>(value: T) =>
+        async () =>
+          value,
+    ),
+  );
+  expect(evaluated).toEqual(spogtan.evaluate(objects(<T>(value: T) => value)));
+  expect(evaluated.map((object) => object.kind)).toEqual([
+    'Deployment',
+    'StatefulSet',
+    'Service',
+    'Ingress',
+    'ConfigMap',
+  ]);
+});
+
+test('overlays apply on top of every object, like kustomize', () => {
+  const prod = overlay(
+    web,
+    { namespace: 'prod', labels: { env: 'prod' }, replicas: 3 },
+    {
+      name_prefix: 'prod-',
+      patches: {
+        Deployment: {
+          spec: { template: { spec: { containers: [{ name: 'prod-web', resources: { limits: { cpu: '1' } } }] } } },
+        },
+      },
+    },
+  );
+  const [web_deployment, web_service] = spogtan.evaluate(prod) as KubernetesObject[];
+  expect(web_deployment.metadata).toEqual({
+    name: 'prod-web',
+    namespace: 'prod',
+    labels: { team: 'platform', env: 'prod', 'app.kubernetes.io/name': 'prod-web' },
+  });
+  expect(web_deployment.kind === 'Deployment' && web_deployment.spec).toMatchObject({
+    replicas: 3,
+    template: {
+      spec: { containers: [{ name: 'prod-web', image: 'nginx:1.21', resources: { limits: { cpu: '1' } } }] },
+    },
+  });
+  expect(web_service.kind === 'Service' && web_service.spec.selector).toEqual({ 'app.kubernetes.io/name': 'prod-web' });
+});
+
+test('objects are written as a multi-document stream', () => {
+  const app = $k8s.extend<{ tier: string }>();
+  const objects = spogtan.evaluate(
+    app.with({ name: 'api', image: 'api:1', tier: 'backend', labels: { tier: app.get('tier') } }, [
+      deployment(),
+      service({ ports: { http: 8080 } }),
+    ]),
+  );
+  expect(toManifests(objects)).toBe(
+    [
+      '---',
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata:',
+      '  name: api',
+      '  labels:',
+      '    tier: backend',
+      '    app.kubernetes.io/name: api',
+      'spec:',
+      '  replicas: 1',
+      '  selector:',
+      '    matchLabels:',
+      '      app.kubernetes.io/name: api',
+      '  template:',
+      '    metadata:',
+      '      labels:',
+      '        tier: backend',
+      '        app.kubernetes.io/name: api',
+      '    spec:',
+      '      containers:',
+      '        - name: api',
+      '          image: api:1',
+      '---',
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata:',
+      '  name: api',
+      '  labels:',
+      '    tier: backend',
+      '    app.kubernetes.io/name: api',
+      'spec:',
+      '  selector:',
+      '    app.kubernetes.io/name: api',
+      '  ports:',
+      '    - name: http',
+      '      port: 8080',
+      '      targetPort: http',
+      '',
+    ].join('\n'),
+  );
+  expect(spogtan.evaluate(list(objects))).toEqual({ apiVersion: 'v1', kind: 'List', items: objects });
+  expect(() => toManifests([{ apiVersion: 'v1', kind: 'ConfigMap', metadata: {} }])).toThrow(
+    new FormatError('A Kubernetes object needs metadata.name', [0]),
+  );
+});
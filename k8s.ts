@@ -0,0 +1,27 @@
+export { $k8s, deployment, stateful_set, service, ingress, config_map, overlay, list, toManifests } from './lib/k8s';
+export type { KubernetesParameters, Overlay, Patch, Patches } from './lib/k8s';
+export type {
+  KubernetesObject,
+  Deployment,
+  StatefulSet,
+  Service,
+  Ingress,
+  ConfigMap,
+  List,
+  ObjectMeta,
+  LabelSelector,
+  Container,
+  ContainerPort,
+  EnvVar,
+  ResourceRequirements,
+  Probe,
+  Volume,
+  VolumeMount,
+  PodSpec,
+  PodTemplateSpec,
+  PersistentVolumeClaim,
+  ServicePort,
+  IngressBackend,
+  Quantity,
+  IntOrString,
+} from './lib/k8s_types';
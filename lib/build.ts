@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { evaluateAsync } from './spogtan';
+import { FormatOptions, toYAML, toJSON, toTOML, toDotenv } from './format';
+import { load_module } from './load';
+import { OverrideSources, check_applied } from './overrides';
+import { secret_paths } from './secret';
+
+// Serializers for each file extension that can be built.
+const serializers: Record<string, (value: unknown, options: FormatOptions) => string> = {
+  '.yaml': toYAML,
+  '.yml': toYAML,
+  '.json': toJSON,
+  '.toml': toTOML,
+  '.env': toDotenv,
+};
+
+export interface BuildOptions {
+  // Where to write the output. This is a directory if the entry module exports a map of files,
+  // otherwise it is the path of the single file to write.
+  out: string;
+  // Don't write anything, just report which files differ from what would be generated. Files in the output directory
+  // which are no longer generated aren't reported, since it may hold files which aren't generated at all.
+  check?: boolean;
+  // Parameter overrides, which the entry module applies with `$.with_overrides`.
+  overrides?: OverrideSources;
+  // Write the values of secrets, rather than <redacted>.
+  reveal_secrets?: boolean;
+  // Warn about or fail on parameters which were set but never read while evaluating a file, see `evaluate`.
+  unused?: 'warn' | 'error';
+}
+
+export interface BuildResult {
+  // Every file that was generated, as a path including `out`.
+  files: string[];
+  // Files which were written, or with `check`, the files which are missing or differ from what would be written.
+  changed: string[];
+  // Files which contain secrets, and the paths of the secrets within each, so that they can be kept out of git.
+  secrets: { file: string; paths: string[] }[];
+}
+
+// The serialized content of a file, and the paths of any secrets within it.
+export interface RenderedFile {
+  content: string;
+  secrets: string[];
+}
+
+// Evaluates the default export of the `entry` module and writes the result to files.
+// The default export can either be a single Evaluable, or an object mapping relative file paths to Evaluables.
+// Late values may return Promises, e.g. to read other files.
+export async function build(entry: string, options: BuildOptions): Promise<BuildResult> {
+  const rendered = await render(load_module(entry), options.out, options);
+  if (options.overrides !== undefined) check_applied(options.overrides);
+  const changed = [...rendered].filter(([file, { content }]) => read_if_exists(file) !== content).map(([file]) => file);
+
+  if (!options.check) {
+    for (const file of changed) {
+      write_atomically(file, (rendered.get(file) as RenderedFile).content);
+    }
+  }
+  const secrets = [...rendered]
+    .filter(([, { secrets }]) => secrets.length > 0)
+    .map(([file, { secrets }]) => ({ file, paths: secrets }));
+  return { files: [...rendered.keys()], changed, secrets };
+}
+
+// Evaluates and serializes an exported value, returning each file keyed by its path.
+export async function render(
+  exported: unknown,
+  out: string,
+  options: Pick<BuildOptions, 'overrides' | 'reveal_secrets' | 'unused'> = {},
+): Promise<Map<string, RenderedFile>> {
+  const contents = new Map<string, RenderedFile>();
+  const render_file = async (file: string, value: unknown) => {
+    const evaluated = await evaluateAsync(value, { overrides: options.overrides, unused: options.unused });
+    const content = serialize(file, evaluated, { reveal_secrets: options.reveal_secrets });
+    return { content, secrets: secret_paths(evaluated) };
+  };
+  if (is_file_map(exported)) {
+    for (const [file, value] of Object.entries(exported)) {
+      if (path.isAbsolute(file) || escapes(file)) {
+        throw new Error(`Output file ${file} must be a relative path inside the output directory`);
+      }
+      contents.set(path.join(out, file), await render_file(file, value));
+    }
+  } else {
+    if (serializer_for(out) === undefined) {
+      throw new Error(
+        `The entry module exports a single value, so --out must be a file ending in one of ` +
+          `${Object.keys(serializers).join(', ')}. Export an object keyed by file paths to write several files.`,
+      );
+    }
+    contents.set(out, await render_file(out, exported));
+  }
+  return contents;
+}
+
+// Whether a relative `file` leads out of the directory it's relative to. Names which start with dots, like
+// ..config.yaml, stay inside it.
+function escapes(file: string): boolean {
+  const normalized = path.normalize(file);
+  return normalized === '..' || normalized.startsWith('..' + path.sep);
+}
+
+// Picks out the value of one `file` from an entry module's export. If the export is a single value, it is returned
+// as is and `file` must not be given.
+export function select_file(exported: unknown, file: string | undefined): unknown {
+  if (!is_file_map(exported)) {
+    if (file !== undefined) throw new Error(`The entry module exports a single value, not a map of files`);
+    return exported;
+  }
+  if (file === undefined || !(file in exported)) {
+    const files = Object.keys(exported).join(', ');
+    throw new Error(`${file === undefined ? 'Choose' : `No file named ${file}, choose`} one of the files: ${files}`);
+  }
+  return exported[file];
+}
+
+// Serializes a value according to the extension of the file it will be written to.
+export function serialize(file: string, value: unknown, options: FormatOptions = {}): string {
+  const serializer = serializer_for(file);
+  if (serializer === undefined) {
+    throw new Error(
+      `Don't know how to write ${file}, file names must end in one of ${Object.keys(serializers).join(', ')}`,
+    );
+  }
+  return serializer(value, options);
+}
+
+function serializer_for(file: string): ((value: unknown, options: FormatOptions) => string) | undefined {
+  // path.extname('.env') is empty, since it treats the whole name as a dotfile
+  const extension = path.basename(file) === '.env' ? '.env' : path.extname(file);
+  return serializers[extension];
+}
+
+// An object is treated as a map of files if every key is a file name with a known extension.
+function is_file_map(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || value instanceof Array) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => serializer_for(key) !== undefined);
+}
+
+function read_if_exists(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// Writes to a temporary file and renames it into place, so that readers never see a partially written file.
+function write_atomically(file: string, content: string) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const temporary = path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.tmp`);
+  try {
+    fs.writeFileSync(temporary, content);
+    fs.renameSync(temporary, file);
+  } catch (error) {
+    fs.rmSync(temporary, { force: true });
+    throw error;
+  }
+}
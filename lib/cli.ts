@@ -0,0 +1,281 @@
+import * as path from 'path';
+import { build, select_file } from './build';
+import { diff_entries, format_diff } from './diff';
+import { toJSON } from './format';
+import { format_path } from './path';
+import { import_configs } from './import';
+import { load_module } from './load';
+import { OverrideSources, check_applied } from './overrides';
+import { evaluateAsync } from './spogtan';
+import { explain } from './trace';
+
+// Where the CLI writes its messages. This is swapped out in tests.
+export interface Output {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+const console_output: Output = {
+  log: (message) => process.stdout.write(message + '\n'),
+  error: (message) => process.stderr.write(message + '\n'),
+};
+
+// Arguments parsed from the command line. Options can be repeated, so each holds a list of values.
+export interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string[]>;
+  flags: Set<string>;
+}
+
+interface Command {
+  usage: string;
+  // Options which take a value, e.g. --out <dir>
+  options: string[];
+  // Options which are just present or not, e.g. --check
+  flags: string[];
+  run(args: ParsedArgs, output: Output): Promise<number>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Options for parameter overrides, which are applied by `$.with_overrides` in the entry module.
+const override_options = ['set', 'set-file', 'set-merge', 'overrides'];
+const override_usage =
+  '  Overrides, which the entry module applies with $.with_overrides(), along with SPOGTAN_* environment variables:\n' +
+  '  --set <parameter=value>         Set a parameter, converting the value to the type in the schema.\n' +
+  '  --set-file <parameter=path>     Set a parameter to the content of a file.\n' +
+  '  --set-merge <parameter=value>   Merge a value onto a parameter, e.g. --set-merge awards=bafta\n' +
+  '  --overrides <file>              Set parameters from a JSON or YAML file.';
+
+const commands: Record<string, Command> = {
+  build: {
+    usage:
+      'spogtan build <entry.ts> --out <path> [--check] [--reveal-secrets] [--unused <warn|error>] [overrides]\n' +
+      '  Evaluates the default export of <entry.ts> and writes it to <path>, serialized according to the file\n' +
+      '  extension. If the default export maps file names to values, <path> is a directory to write them into.\n' +
+      '  --check           Write nothing, and fail if any file is missing or differs from what would be written.\n' +
+      "                    Files which are no longer generated aren't reported, delete them when removing outputs.\n" +
+      '  --reveal-secrets  Write the values of secrets made with $.secret(), rather than <redacted>.\n' +
+      '  --unused          Warn about or fail on parameters which are set but never read, such as typos.\n' +
+      override_usage,
+    options: ['out', 'unused', ...override_options],
+    flags: ['check', 'reveal-secrets'],
+    async run(args, output) {
+      const [entry] = expect_positional(args, 1, 'an entry module');
+      const out = expect_option(args, 'out');
+      const check = args.flags.has('check');
+      const reveal_secrets = args.flags.has('reveal-secrets');
+      const unused = args.options.unused && expect_option(args, 'unused');
+      if (unused !== undefined && unused !== 'warn' && unused !== 'error') {
+        throw new UsageError(`--unused must be warn or error, not ${unused}`);
+      }
+      const { files, changed, secrets } = await build(entry, {
+        out,
+        check,
+        overrides: override_sources(args),
+        reveal_secrets,
+        unused,
+      });
+
+      if (check) {
+        for (const file of changed) output.error(`${path.relative('.', file)} is out of date`);
+        if (changed.length > 0) {
+          output.error(`${changed.length} of ${files.length} files are out of date, run spogtan build to update them.`);
+          return 1;
+        }
+        output.log(`All ${files.length} files are up to date.`);
+      } else {
+        for (const file of changed) output.log(`Wrote ${path.relative('.', file)}`);
+        output.log(`${changed.length} of ${files.length} files changed.`);
+      }
+      for (const { file, paths } of secrets) {
+        const written = reveal_secrets ? '' : ', which are written as <redacted>';
+        output.log(
+          `${path.relative('.', file)} contains secrets at ${paths.map((p) => p || '<root>').join(', ')}${written}`,
+        );
+      }
+      return 0;
+    },
+  },
+  explain: {
+    usage:
+      'spogtan explain <entry.ts> <path> [--file <name>] [overrides]\n' +
+      '  Shows how the value at <path> (e.g. movies[3].awards) came about: each parameter looked up there, and the\n' +
+      '  Frames and InheritedOps which contributed to it.\n' +
+      '  --file  The file to look in, if the entry module exports a map of files.\n' +
+      override_usage,
+    options: ['file', ...override_options],
+    flags: [],
+    async run(args, output) {
+      const [entry, output_path] = expect_positional(args, 2, 'an entry module and an output path');
+      const file = args.options.file?.[args.options.file.length - 1];
+      const overrides = override_sources(args);
+      const traced = await evaluateAsync(select_file(load_module(entry), file), { trace: true, overrides });
+      if (overrides !== undefined) check_applied(overrides);
+      output.log(explain(traced, output_path));
+      return 0;
+    },
+  },
+  diff: {
+    usage:
+      'spogtan diff <before.ts> [<after.ts>] [--key <path>] [--file <name>] [--json] [--reveal-secrets] [overrides]\n' +
+      '  Evaluates two entry modules, or one with two sets of overrides, and reports what was added, removed or\n' +
+      '  changed between them by output path. Exits with 1 if anything changed.\n' +
+      '  --key             Match list items by this path within them rather than by position, e.g. --key id or\n' +
+      '                    --key metadata.name. Can be given several times, and the first which an item has is used.\n' +
+      '  --file            Only compare this file, if the entry modules export a map of files.\n' +
+      '  --json            Write the changes as JSON.\n' +
+      '  --reveal-secrets  Compare the values of secrets made with $.secret(), rather than <redacted>.\n' +
+      override_usage +
+      '\n  Overrides apply to both sides. Prefix them with before- or after- to apply them to one side, e.g.\n' +
+      '  --before-set replicas=1 --after-set replicas=3',
+    options: [
+      'key',
+      'file',
+      ...override_options,
+      ...override_options.map((option) => `before-${option}`),
+      ...override_options.map((option) => `after-${option}`),
+    ],
+    flags: ['json', 'reveal-secrets'],
+    async run(args, output) {
+      if (args.positional.length < 1 || args.positional.length > 2) {
+        throw new UsageError('Expected one entry module, or one for before and one for after');
+      }
+      const [before, after = before] = args.positional;
+      const file = args.options.file && expect_option(args, 'file');
+      const changes = await diff_entries(
+        { entry: before, overrides: combine_overrides(override_sources(args), override_sources(args, 'before-')) },
+        { entry: after, overrides: combine_overrides(override_sources(args), override_sources(args, 'after-')) },
+        { keys: args.options.key, file, reveal_secrets: args.flags.has('reveal-secrets') },
+      );
+      if (args.flags.has('json')) {
+        const json = changes.map((change) => ({ ...change, path: format_path(change.path) }));
+        output.log(toJSON({ changes: json }, { reveal_secrets: true }).trimEnd());
+      } else {
+        output.log(format_diff(changes));
+      }
+      return changes.length > 0 ? 1 : 0;
+    },
+  },
+  import: {
+    usage:
+      'spogtan import <files...> --out <module.ts>\n' +
+      '  Writes a module with a component for YAML or JSON files which are variations of the same config, with a\n' +
+      '  Parameter for each value which differs between them, and one $.with() for each file. Evaluating the module is\n' +
+      '  checked to reproduce every file, and spogtan build <module.ts> --out <its directory> writes them again.',
+    options: ['out'],
+    flags: [],
+    async run(args, output) {
+      if (args.positional.length === 0) throw new UsageError('Expected the files to import');
+      const out = expect_option(args, 'out');
+      const { module, parameters } = await import_configs(args.positional, { out });
+      output.log(`Wrote ${path.relative('.', module)}, with ${parameters.length} Parameters: ${parameters.join(', ')}`);
+      output.log(`Evaluating it reproduces all ${args.positional.length} files.`);
+      return 0;
+    },
+  },
+};
+
+// Runs the CLI with the given arguments (excluding the node binary and script), returning the exit code.
+export async function main(argv: string[], output: Output = console_output): Promise<number> {
+  const [command_name, ...rest] = argv;
+  const command = commands[command_name];
+  if (command === undefined) {
+    const message =
+      command_name === undefined || command_name === '--help' ? '' : `Unknown command ${command_name}\n\n`;
+    output.error(message + usage());
+    return command_name === '--help' ? 0 : 2;
+  }
+
+  try {
+    return await command.run(parse_args(rest, command), output);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.error(`${error.message}\n\nUsage: ${command.usage}`);
+      return 2;
+    }
+    output.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+function usage(): string {
+  return (
+    'Usage:\n' +
+    Object.values(commands)
+      .map((command) => command.usage)
+      .join('\n\n')
+  );
+}
+
+export function parse_args(args: string[], command: Pick<Command, 'options' | 'flags'>): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {}, flags: new Set() };
+  for (let a = 0; a < args.length; ++a) {
+    const arg = args[a];
+    if (!arg.startsWith('--')) {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const [name, inline_value] = split_once(arg.slice(2), '=');
+    if (command.flags.includes(name) && inline_value === undefined) {
+      parsed.flags.add(name);
+    } else if (command.options.includes(name)) {
+      const value = inline_value ?? args[++a];
+      if (value === undefined) throw new UsageError(`--${name} needs a value`);
+      (parsed.options[name] ??= []).push(value);
+    } else {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+  }
+  return parsed;
+}
+
+function split_once(string: string, separator: string): [string, string | undefined] {
+  const index = string.indexOf(separator);
+  return index === -1 ? [string, undefined] : [string.slice(0, index), string.slice(index + separator.length)];
+}
+
+// Collects the override options given to a command, or returns undefined if there are none. `prefix` picks out
+// options for one side of a diff, e.g. --before-set
+function override_sources(args: ParsedArgs, prefix = ''): OverrideSources | undefined {
+  const option = (name: string) => args.options[prefix + name];
+  const sources = {
+    files: option('overrides'),
+    set: option('set'),
+    set_file: option('set-file'),
+    set_merge: option('set-merge'),
+  };
+  return Object.values(sources).some((values) => values !== undefined) ? sources : undefined;
+}
+
+// Overrides given for every side of a diff, followed by those given for one of them, which take precedence.
+function combine_overrides(
+  shared: OverrideSources | undefined,
+  side: OverrideSources | undefined,
+): OverrideSources | undefined {
+  if (shared === undefined || side === undefined) return shared ?? side;
+  const combine = (a: string[] | undefined, b: string[] | undefined) => (a || b) && [...(a ?? []), ...(b ?? [])];
+  return {
+    files: combine(shared.files, side.files),
+    set: combine(shared.set, side.set),
+    set_file: combine(shared.set_file, side.set_file),
+    set_merge: combine(shared.set_merge, side.set_merge),
+  };
+}
+
+function expect_positional(args: ParsedArgs, count: number, description: string): string[] {
+  if (args.positional.length !== count) throw new UsageError(`Expected ${description}`);
+  return args.positional;
+}
+
+function expect_option(args: ParsedArgs, name: string): string {
+  const values = args.options[name];
+  if (values === undefined) throw new UsageError(`--${name} is required`);
+  if (values.length > 1) throw new UsageError(`--${name} can only be given once`);
+  return values[0];
+}
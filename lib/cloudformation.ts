@@ -0,0 +1,394 @@
+import { current_path } from './context';
+import { CheckIssue, SpogtanError } from './errors';
+import { YAMLTag, yaml_tag_symbol } from './format';
+import { is_plain_object } from './merge';
+import { Path, format_path } from './path';
+import { Evaluable, evaluate_symbol, stepped_late_value } from './spogtan';
+
+// CloudFormation templates, with intrinsic functions which are left for CloudFormation to resolve when the stack is
+// deployed. toJSON writes them in their long form, e.g. { "Fn::GetAtt": ["Bucket", "Arn"] }, and toYAML in their short
+// form, e.g. !GetAtt Bucket.Arn
+
+const intrinsic_names = [
+  'Ref',
+  'Condition',
+  'Base64',
+  'Cidr',
+  'FindInMap',
+  'GetAtt',
+  'GetAZs',
+  'ImportValue',
+  'Join',
+  'Select',
+  'Split',
+  'Sub',
+  'If',
+  'Equals',
+  'And',
+  'Or',
+  'Not',
+] as const;
+export type IntrinsicName = typeof intrinsic_names[number];
+
+// A call to an intrinsic function, which CloudFormation resolves to a T. `evaluate` evaluates its arguments, and
+// otherwise leaves it as it is.
+export class Intrinsic<T = unknown> {
+  // Makes Intrinsics nominal, so that ones which resolve to different types can't be mixed up
+  private readonly resolves_to?: T;
+
+  constructor(readonly name: IntrinsicName, readonly args: unknown) {}
+
+  // The long form, e.g. { "Fn::GetAtt": ["Bucket", "Arn"] }
+  toJSON(): Record<string, unknown> {
+    return { [long_name(this.name)]: this.args };
+  }
+
+  // The short form, e.g. !GetAtt Bucket.Arn
+  [yaml_tag_symbol](): YAMLTag {
+    const { name, args } = this;
+    if (name === 'GetAtt' && args instanceof Array && args.every((arg) => typeof arg === 'string')) {
+      return new YAMLTag('!GetAtt', args.join('.'));
+    }
+    // YAML can't tag a value which is itself tagged, e.g. !Base64 !Sub, so such an argument is written in long form
+    return new YAMLTag(`!${name}`, args instanceof Intrinsic ? args.toJSON() : args);
+  }
+}
+
+// A value which CloudFormation resolves to a T, e.g. a string or an Intrinsic<string>. Either can be a late value.
+export type Value<T> = Evaluable<T> | Evaluable<Intrinsic<T>>;
+
+// CloudFormation's pseudo parameters, which can be referred to without being defined in the template.
+const pseudo_parameters = new Set([
+  'AWS::AccountId',
+  'AWS::NotificationARNs',
+  'AWS::NoValue',
+  'AWS::Partition',
+  'AWS::Region',
+  'AWS::StackId',
+  'AWS::StackName',
+  'AWS::URLSuffix',
+]);
+
+export interface ResourceAttributes {
+  DependsOn?: LogicalId[];
+  Condition?: string;
+  DeletionPolicy?: 'Delete' | 'Retain' | 'Snapshot';
+  UpdateReplacePolicy?: 'Delete' | 'Retain' | 'Snapshot';
+  Metadata?: Record<string, unknown>;
+}
+
+export interface ResourceDefinition<Properties = Record<string, unknown>>
+  extends Omit<ResourceAttributes, 'DependsOn'> {
+  Type: string;
+  Properties?: Properties;
+  DependsOn?: string[];
+}
+
+// A resource and its logical ID. Intrinsics can be given it in place of its logical ID, e.g. fn.get_att(bucket, 'Arn')
+// It evaluates to { [logical_id]: definition }, so that the Resources of a template can be given as an array of them.
+export class Resource<Properties = Record<string, unknown>> {
+  constructor(readonly logical_id: string, readonly definition: ResourceDefinition<Properties>) {}
+
+  [evaluate_symbol](): Record<string, ResourceDefinition<Properties>> {
+    return { [this.logical_id]: this.definition };
+  }
+}
+
+// The logical ID of a resource or parameter in the same template, or a Resource which has one.
+export type LogicalId = string | Resource<unknown>;
+
+export function resource<Properties>(
+  logical_id: string,
+  type: string,
+  properties: Properties,
+  attributes: ResourceAttributes = {},
+): Resource<Properties> {
+  const { DependsOn, ...rest } = attributes;
+  return new Resource(logical_id, {
+    Type: type,
+    Properties: properties,
+    ...rest,
+    ...(DependsOn !== undefined && { DependsOn: DependsOn.map(logical_id_of) }),
+  });
+}
+
+export interface TemplateParameter {
+  Type: string;
+  Default?: string | number;
+  Description?: string;
+  AllowedValues?: (string | number)[];
+  AllowedPattern?: string;
+  NoEcho?: boolean;
+}
+
+export interface TemplateOutput {
+  Value: Value<string>;
+  Description?: string;
+  Condition?: string;
+  Export?: { Name: Value<string> };
+}
+
+export interface Template {
+  AWSTemplateFormatVersion?: '2010-09-09';
+  Description?: string;
+  Parameters?: Record<string, TemplateParameter>;
+  Mappings?: Record<string, Record<string, Record<string, unknown>>>;
+  Conditions?: Record<string, Value<boolean>>;
+  Resources: Record<string, ResourceDefinition>;
+  Outputs?: Record<string, TemplateOutput>;
+}
+
+// A template whose Resources can also be given as an array of Resources, or of values which evaluate to records of
+// resources, e.g. a Resource within $.with(). Arrays within the array are flattened.
+export type TemplateSource = Omit<Template, 'Resources'> & { Resources: unknown };
+
+// Thrown when a template doesn't pass its checks, with every issue that was found.
+export class CloudFormationCheckError extends SpogtanError {
+  constructor(readonly issues: CheckIssue[], path: Path) {
+    super('CloudFormation template check failed', path);
+    this.message += issues.map((issue) => `\n  ${format_path(issue.path)}: ${issue.message}`).join('');
+  }
+}
+
+// A template, which is checked when it's evaluated.
+export function cloudformation_template(template: TemplateSource): () => Template {
+  return stepped_late_value(function* () {
+    const evaluated = (yield template) as TemplateSource;
+    if (!(evaluated.Resources instanceof Array)) return checkTemplate(evaluated as Template);
+    const issues: CheckIssue[] = [];
+    const resources: Record<string, ResourceDefinition> = {};
+    evaluated.Resources.flat(Infinity).forEach((item: Record<string, ResourceDefinition>, index) => {
+      for (const [logical_id, definition] of Object.entries(item)) {
+        if (logical_id in resources) {
+          issues.push({ path: ['Resources', index], message: `there's more than one resource ${logical_id}` });
+        }
+        resources[logical_id] = definition;
+      }
+    });
+    return checkTemplate({ ...evaluated, Resources: resources }, issues);
+  });
+}
+
+// Checks an evaluated template without deploying it: logical IDs are alphanumeric, and every Ref, GetAtt, Sub
+// variable, condition, mapping and DependsOn refers to something which the template defines. Returns the template if
+// it passes.
+export function checkTemplate(template: Template, issues: CheckIssue[] = []): Template {
+  const defined = (section: keyof Template) => new Set(Object.keys(template[section] ?? {}));
+  const parameters = defined('Parameters');
+  const resources = defined('Resources');
+  const conditions = defined('Conditions');
+  const mappings = defined('Mappings');
+
+  for (const section of ['Parameters', 'Mappings', 'Conditions', 'Resources', 'Outputs'] as const) {
+    for (const logical_id of Object.keys(template[section] ?? {})) {
+      if (!/^[A-Za-z0-9]+$/.test(logical_id)) {
+        issues.push({ path: [section, logical_id], message: `${logical_id} isn't alphanumeric` });
+      }
+    }
+  }
+
+  const check_resource = (logical_id: unknown, path: Path) => {
+    if (typeof logical_id === 'string' && !resources.has(logical_id)) {
+      issues.push({ path, message: `there's no resource called ${logical_id}` });
+    }
+  };
+  const check_condition = (name: unknown, path: Path) => {
+    if (typeof name === 'string' && !conditions.has(name)) {
+      issues.push({ path, message: `there's no condition called ${name}` });
+    }
+  };
+  const check_ref = (name: string, path: Path) => {
+    if (name.startsWith('AWS::') ? !pseudo_parameters.has(name) : !parameters.has(name) && !resources.has(name)) {
+      issues.push({ path, message: `there's no parameter or resource called ${name}` });
+    }
+  };
+
+  const check_value = (value: unknown, path: Path) => {
+    const intrinsic = as_intrinsic(value);
+    if (intrinsic === undefined) {
+      if (value instanceof Array) value.forEach((item, index) => check_value(item, [...path, index]));
+      if (is_plain_object(value)) {
+        Object.entries(value).forEach(([key, item]) => check_value(item, [...path, key]));
+      }
+      return;
+    }
+    const { name, args } = intrinsic;
+    switch (name) {
+      case 'Ref':
+        if (typeof args === 'string') check_ref(args, path);
+        break;
+      case 'GetAtt':
+        check_resource(typeof args === 'string' ? args.split('.')[0] : args instanceof Array && args[0], path);
+        break;
+      case 'Condition':
+        check_condition(args, path);
+        break;
+      case 'If':
+        if (args instanceof Array) check_condition(args[0], path);
+        break;
+      case 'FindInMap':
+        if (args instanceof Array && typeof args[0] === 'string' && !mappings.has(args[0])) {
+          issues.push({ path, message: `there's no mapping called ${args[0]}` });
+        }
+        break;
+      case 'Sub': {
+        const [string, variables] = args instanceof Array ? args : [args, {}];
+        const names = new Set(is_plain_object(variables) ? Object.keys(variables) : []);
+        if (typeof string === 'string') {
+          // ${!Literal} is written as ${Literal}, and ${Resource.Attribute} is a GetAtt
+          for (const [, match] of string.matchAll(/\$\{([^!}][^}]*)\}/g)) {
+            const variable = match.trim();
+            if (names.has(variable)) continue;
+            const [logical_id, attribute] = variable.split('.');
+            if (attribute === undefined) check_ref(logical_id, path);
+            else check_resource(logical_id, path);
+          }
+        }
+        break;
+      }
+    }
+    check_value(args, [...path, long_name(name)]);
+  };
+
+  Object.entries(template.Resources).forEach(([logical_id, definition]) => {
+    const path = ['Resources', logical_id];
+    (definition.DependsOn ?? []).forEach((dependency, index) =>
+      check_resource(dependency, [...path, 'DependsOn', index]),
+    );
+    if (definition.Condition !== undefined) check_condition(definition.Condition, [...path, 'Condition']);
+    check_value(definition.Properties, [...path, 'Properties']);
+  });
+  Object.entries(template.Conditions ?? {}).forEach(([name, value]) => check_value(value, ['Conditions', name]));
+  Object.entries(template.Outputs ?? {}).forEach(([name, output]) => {
+    if (output.Condition !== undefined) check_condition(output.Condition, ['Outputs', name, 'Condition']);
+    check_value(output, ['Outputs', name]);
+  });
+
+  if (issues.length > 0) throw new CloudFormationCheckError(issues, current_path());
+  return template;
+}
+
+// Intrinsics, or their long form in templates which were made by other means.
+function as_intrinsic(value: unknown): { name: IntrinsicName; args: unknown } | undefined {
+  if (value instanceof Intrinsic) return value;
+  if (!is_plain_object(value) || Object.keys(value).length !== 1) return undefined;
+  const [[key, args]] = Object.entries(value);
+  const name = key.replace(/^Fn::/, '') as IntrinsicName;
+  return long_name(name) === key && intrinsic_names.includes(name) ? { name, args } : undefined;
+}
+
+function long_name(name: IntrinsicName): string {
+  return name === 'Ref' || name === 'Condition' ? name : `Fn::${name}`;
+}
+
+function logical_id_of(target: LogicalId): string {
+  return target instanceof Resource ? target.logical_id : target;
+}
+
+// An intrinsic which is made once its arguments are evaluated.
+function intrinsic<T>(name: IntrinsicName, args: unknown): () => Intrinsic<T> {
+  return stepped_late_value(function* () {
+    return new Intrinsic<T>(name, yield args);
+  });
+}
+
+function ref(target: LogicalId): () => Intrinsic<string> {
+  return intrinsic('Ref', logical_id_of(target));
+}
+
+function get_att(target: LogicalId, attribute: Value<string>): () => Intrinsic<string> {
+  return intrinsic('GetAtt', [logical_id_of(target), attribute]);
+}
+
+// Substitutes ${Name} in `string` with the value of the parameter, resource or variable called Name, and
+// ${Resource.Attribute} with the attribute of a resource.
+function sub(string: string, variables?: Record<string, Value<string>>): () => Intrinsic<string> {
+  return intrinsic('Sub', variables === undefined ? string : [string, variables]);
+}
+
+function join(delimiter: string, values: Value<string[]> | Value<string>[]): () => Intrinsic<string> {
+  return intrinsic('Join', [delimiter, values]);
+}
+
+function select<T>(index: Value<number>, list: Value<T[]> | Value<T>[]): () => Intrinsic<T> {
+  return intrinsic('Select', [index, list]);
+}
+
+function split(delimiter: string, string: Value<string>): () => Intrinsic<string[]> {
+  return intrinsic('Split', [delimiter, string]);
+}
+
+function get_azs(region: Value<string> = ''): () => Intrinsic<string[]> {
+  return intrinsic('GetAZs', region);
+}
+
+function import_value(name: Value<string>): () => Intrinsic<string> {
+  return intrinsic('ImportValue', name);
+}
+
+function find_in_map(
+  map: string,
+  top_level_key: Value<string>,
+  second_level_key: Value<string>,
+): () => Intrinsic<string> {
+  return intrinsic('FindInMap', [map, top_level_key, second_level_key]);
+}
+
+function base64(value: Value<string>): () => Intrinsic<string> {
+  return intrinsic('Base64', value);
+}
+
+function cidr(block: Value<string>, count: Value<number>, bits: Value<number>): () => Intrinsic<string[]> {
+  return intrinsic('Cidr', [block, count, bits]);
+}
+
+// Fn::If, which resolves to `then` if the condition called `condition` is true, and otherwise to `otherwise`. Use
+// fn.ref('AWS::NoValue') to leave a property out.
+function conditional<Then, Otherwise = Then>(
+  condition: string,
+  then: Value<Then>,
+  otherwise: Value<Otherwise>,
+): () => Intrinsic<Then | Otherwise> {
+  return intrinsic('If', [condition, then, otherwise]);
+}
+
+function condition(name: string): () => Intrinsic<boolean> {
+  return intrinsic('Condition', name);
+}
+
+function equals(a: Value<string | number | boolean>, b: Value<string | number | boolean>): () => Intrinsic<boolean> {
+  return intrinsic('Equals', [a, b]);
+}
+
+function and(...conditions: Value<boolean>[]): () => Intrinsic<boolean> {
+  return intrinsic('And', conditions);
+}
+
+function or(...conditions: Value<boolean>[]): () => Intrinsic<boolean> {
+  return intrinsic('Or', conditions);
+}
+
+function not(condition: Value<boolean>): () => Intrinsic<boolean> {
+  return intrinsic('Not', [condition]);
+}
+
+// The intrinsic functions, e.g. fn.sub('${AWS::StackName}-logs') or fn.if('IsProd', 3, 1)
+export const fn = {
+  ref,
+  get_att,
+  sub,
+  join,
+  select,
+  split,
+  get_azs,
+  import_value,
+  find_in_map,
+  base64,
+  cidr,
+  if: conditional,
+  condition,
+  equals,
+  and,
+  or,
+  not,
+};
@@ -0,0 +1,182 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Path } from './path';
+import type { OverrideSources } from './overrides';
+import type { References } from './refs';
+import type { Provenance } from './trace';
+import type { Usage } from './usage';
+
+// How a Frame takes precedence over others. Overlay Frames take precedence over every ordinary Frame, however deep
+// they are, and override Frames take precedence over overlays too.
+export type Layer = 'frame' | 'overlay' | 'override';
+
+// A Frame pushed onto the stack by one Spogtan instance, identified by `owner`.
+// Stacks are linked lists which are never modified, so that concurrent evaluations can each have their own.
+export interface StackNode {
+  owner: unknown;
+  frame: Record<string, unknown>;
+  layer: Layer;
+  parent: StackNode | undefined;
+}
+
+// A parameter lookup which is in progress. Each lookup is made within the context of the ones that led to it, so that
+// a lookup which leads back to itself can be reported as a cycle.
+interface LookupNode {
+  owner: unknown;
+  parameter: string;
+  stack: StackNode | undefined;
+  parent: LookupNode | undefined;
+}
+
+interface AnchorNode {
+  anchor: string;
+  parent: AnchorNode | undefined;
+}
+
+interface PathNode {
+  segment: string | number;
+  depth: number;
+  parent: PathNode | undefined;
+}
+
+// Everything which describes where an evaluation is up to. A new context is made for each path segment and Frame,
+// rather than modifying the current one, so that async evaluations can keep a context across `await`s.
+export interface EvaluationContext {
+  stack: StackNode | undefined;
+  path: PathNode | undefined;
+  // An offset to add to the indices of the next array evaluated at a given depth. `merge` uses this so that the items
+  // of a merged array are reported at their index in the merged result. `used` is set once an array has taken it.
+  index_offset: { depth: number; offset: number; used: boolean } | undefined;
+  // Collects every parameter lookup when `evaluate` is called with `trace: true`.
+  provenance: Provenance | undefined;
+  // Collects which Frame keys are set and read when `evaluate` is called with `unused`.
+  usage: Usage | undefined;
+  // Overrides given to `evaluate`, which `with_overrides` applies.
+  override_sources: OverrideSources | undefined;
+  // The parameter lookups in progress, innermost first.
+  lookups: LookupNode | undefined;
+  // Whether the values of parameters are reused for later lookups with the same stack.
+  memoize: boolean;
+  // Whether to warn about Frame values which would have been told apart from late values differently in the past.
+  warn_legacy_ops: boolean;
+  // Whether secrets are evaluated to their values, rather than being left wrapped.
+  reveal_secrets: boolean;
+  // The anchors and refs of the current `evaluate` call.
+  references: References | undefined;
+  // The anchors whose values are being evaluated, innermost first.
+  enclosing_anchors: AnchorNode | undefined;
+}
+
+const root_context: EvaluationContext = {
+  stack: undefined,
+  path: undefined,
+  index_offset: undefined,
+  provenance: undefined,
+  usage: undefined,
+  override_sources: undefined,
+  lookups: undefined,
+  memoize: true,
+  warn_legacy_ops: false,
+  reveal_secrets: false,
+  references: undefined,
+  enclosing_anchors: undefined,
+};
+
+// Synchronous evaluations keep their context here, which is cheaper than going through async_hooks.
+// Async evaluations keep theirs in `async_storage`, which follows them across `await`s.
+let sync_context: EvaluationContext | undefined = undefined;
+const async_storage = new AsyncLocalStorage<EvaluationContext>();
+
+export function current_context(): EvaluationContext {
+  return sync_context ?? async_storage.getStore() ?? root_context;
+}
+
+// Whether an async evaluation is in progress, including when a synchronous one was started within it, e.g. by $().
+export function in_async_evaluation(): boolean {
+  return async_storage.getStore() !== undefined;
+}
+
+// Runs `fn` synchronously within `context`.
+export function run_in_context<T>(context: EvaluationContext, fn: () => T): T {
+  const previous = sync_context;
+  sync_context = context;
+  try {
+    return fn();
+  } finally {
+    sync_context = previous;
+  }
+}
+
+// Runs the async `fn` within `context`, which is kept for everything it awaits.
+export function run_in_context_async<T>(context: EvaluationContext, fn: () => Promise<T>): Promise<T> {
+  const previous = sync_context;
+  sync_context = undefined;
+  try {
+    return async_storage.run(context, fn);
+  } finally {
+    sync_context = previous;
+  }
+}
+
+// Returns a copy of the current context with `frame` pushed onto `owner`'s stack.
+export function with_frame(owner: unknown, frame: Record<string, unknown>, layer: Layer = 'frame'): EvaluationContext {
+  const context = current_context();
+  return { ...context, stack: { owner, frame, layer, parent: context.stack } };
+}
+
+// Returns the Frames pushed by `owner` in the order they apply: outermost first, followed by overlay Frames and then
+// override Frames, each outermost first.
+export function frames_of(owner: unknown): Record<string, unknown>[] {
+  const layers: Record<Layer, Record<string, unknown>[]> = { frame: [], overlay: [], override: [] };
+  for (let node = current_context().stack; node !== undefined; node = node.parent) {
+    if (node.owner === owner) layers[node.layer].push(node.frame);
+  }
+  return [...layers.frame.reverse(), ...layers.overlay.reverse(), ...layers.override.reverse()];
+}
+
+export function current_path(): Path {
+  const path: Path = [];
+  for (let node = current_context().path; node !== undefined; node = node.parent) {
+    path.push(node.segment);
+  }
+  return path.reverse();
+}
+
+// Returns a copy of the current context with `segment` appended to the path.
+export function at_path(segment: string | number): EvaluationContext {
+  const context = current_context();
+  return { ...context, path: { segment, depth: (context.path?.depth ?? 0) + 1, parent: context.path } };
+}
+
+// Returns a copy of the current context in which the first array evaluated at the current depth is treated as if it
+// started at index `offset`.
+export function with_index_offset(offset: number): EvaluationContext {
+  const context = current_context();
+  return { ...context, index_offset: { depth: context.path?.depth ?? 0, offset, used: false } };
+}
+
+// Returns the index offset for an array being evaluated at the current depth, using it up.
+export function take_index_offset(): number {
+  const context = current_context();
+  const index_offset = context.index_offset;
+  if (index_offset === undefined || index_offset.used || index_offset.depth !== (context.path?.depth ?? 0)) return 0;
+  index_offset.used = true;
+  return index_offset.offset;
+}
+
+// Returns a copy of the current context in which `owner` is looking up `parameter`.
+export function with_lookup(owner: unknown, parameter: string): EvaluationContext {
+  const context = current_context();
+  return { ...context, lookups: { owner, parameter, stack: context.stack, parent: context.lookups } };
+}
+
+// If `owner` is already looking up `parameter` with the current stack, returns the parameters looked up since then,
+// starting and ending with `parameter`, e.g. [name, id, name]. Otherwise, returns undefined.
+export function find_cycle(owner: unknown, parameter: string): string[] | undefined {
+  const context = current_context();
+  const cycle = [parameter];
+  for (let node = context.lookups; node !== undefined; node = node.parent) {
+    cycle.unshift(node.parameter);
+    if (node.owner === owner && node.parameter === parameter && node.stack === context.stack) return cycle;
+  }
+  return undefined;
+}
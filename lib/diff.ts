@@ -0,0 +1,140 @@
+import * as util from 'util';
+import { select_file } from './build';
+import { plain_data } from './format';
+import { load_module } from './load';
+import { is_plain_object } from './merge';
+import { OverrideSources, check_applied } from './overrides';
+import { Path, format_path, parse_path } from './path';
+import { replace_secrets } from './secret';
+import { evaluateAsync } from './spogtan';
+
+// Structural diffs of evaluated configs, by output path. Changes to the order of object keys, and of list items which
+// are matched by an identity key, aren't reported, since they don't change what the config means.
+
+export interface Change {
+  kind: 'added' | 'removed' | 'changed';
+  // Where the change is. Indices are within `after`, except for removed list items, which are within `before`.
+  path: Path;
+  // The value before the change, unless it was added.
+  before?: unknown;
+  // The value after the change, unless it was removed.
+  after?: unknown;
+}
+
+export interface DiffOptions {
+  // Paths within list items which identify them, e.g. ['id', 'metadata.name']. Each item is identified by the first of
+  // these which it has, and matched with the item that has the same identity in the other list, wherever it is. Other
+  // items are matched by their position.
+  keys?: string[];
+  // Compare the values of secrets made with $.secret(), rather than treating every one as <redacted>.
+  reveal_secrets?: boolean;
+}
+
+// An entry module to evaluate for `diff_entries`, and the overrides to evaluate it with.
+export interface DiffSide {
+  entry: string;
+  overrides?: OverrideSources;
+}
+
+// Returns every change between two evaluated values.
+export function diff(before: unknown, after: unknown, options: DiffOptions = {}): Change[] {
+  const keys = (options.keys ?? []).map(parse_path);
+  const normalize = (value: unknown) => plain_data(replace_secrets(value, options.reveal_secrets ?? false), []);
+  const changes: Change[] = [];
+  diff_values(normalize(before), normalize(after), [], keys, changes);
+  return changes;
+}
+
+// Evaluates two entry modules, or the same one with different overrides, and returns every change between them. If
+// `file` is given, only that file of a module which exports a map of files is compared.
+export async function diff_entries(
+  before: DiffSide,
+  after: DiffSide,
+  options: DiffOptions & { file?: string } = {},
+): Promise<Change[]> {
+  const evaluate_side = async ({ entry, overrides }: DiffSide) => {
+    const exported = load_module(entry);
+    const value = options.file === undefined ? exported : select_file(exported, options.file);
+    const evaluated = await evaluateAsync(value, { overrides });
+    if (overrides !== undefined) check_applied(overrides);
+    return evaluated;
+  };
+  return diff(await evaluate_side(before), await evaluate_side(after), options);
+}
+
+// Describes changes a line each, e.g. ~ movies[0].year: 2011 -> 2012
+export function format_diff(changes: Change[]): string {
+  if (changes.length === 0) return 'No changes.';
+  const lines = changes.map(({ kind, path, before, after }) => {
+    const at = format_path(path) || '<root>';
+    if (kind === 'added') return `+ ${at}: ${inspect(after)}`;
+    if (kind === 'removed') return `- ${at}: ${inspect(before)}`;
+    return `~ ${at}: ${inspect(before)} -> ${inspect(after)}`;
+  });
+  const count = (kind: Change['kind']) => changes.filter((change) => change.kind === kind).length;
+  const plural = changes.length === 1 ? '' : 's';
+  const counts = (['added', 'removed', 'changed'] as const).map((kind) => `${count(kind)} ${kind}`);
+  lines.push(`${changes.length} change${plural}: ${counts.join(', ')}`);
+  return lines.join('\n');
+}
+
+function inspect(value: unknown): string {
+  return util.inspect(value, { depth: 4, breakLength: Infinity });
+}
+
+// Undefined values are left out of objects, since they're left out of the output.
+function diff_values(before: unknown, after: unknown, path: Path, keys: Path[], changes: Change[]) {
+  if (is_plain_object(before) && is_plain_object(after)) {
+    for (const [key, value] of Object.entries(before)) {
+      if (value === undefined) continue;
+      if (after[key] === undefined) changes.push({ kind: 'removed', path: [...path, key], before: value });
+      else diff_values(value, after[key], [...path, key], keys, changes);
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (value !== undefined && before[key] === undefined) {
+        changes.push({ kind: 'added', path: [...path, key], after: value });
+      }
+    }
+  } else if (before instanceof Array && after instanceof Array) {
+    diff_lists(before, after, path, keys, changes);
+  } else if (!util.isDeepStrictEqual(before, after)) {
+    changes.push({ kind: 'changed', path, before, after });
+  }
+}
+
+// Matches the items of two lists by their identity where they have one. The rest are matched by their position among
+// the items which have none.
+function diff_lists(before: unknown[], after: unknown[], path: Path, keys: Path[], changes: Change[]) {
+  const before_ids = before.map((item) => identity(item, keys));
+  const unidentified = before.flatMap((_, index) => (before_ids[index] === undefined ? [index] : []));
+  const matched = new Set<number>();
+  after.forEach((item, index) => {
+    const id = identity(item, keys);
+    const match =
+      id === undefined
+        ? unidentified.shift() ?? -1
+        : before_ids.findIndex((before_id, b) => before_id === id && !matched.has(b));
+    if (match === -1) {
+      changes.push({ kind: 'added', path: [...path, index], after: item });
+    } else {
+      matched.add(match);
+      diff_values(before[match], item, [...path, index], keys, changes);
+    }
+  });
+  before.forEach((item, index) => {
+    if (!matched.has(index)) changes.push({ kind: 'removed', path: [...path, index], before: item });
+  });
+}
+
+// The value at the first of `keys` which `item` has, along with the key, e.g. metadata.name=web
+function identity(item: unknown, keys: Path[]): string | undefined {
+  for (const key of keys) {
+    let value = item;
+    for (const segment of key) {
+      value =
+        is_plain_object(value) || value instanceof Array ? (value as Record<string, unknown>)[segment] : undefined;
+    }
+    if (typeof value === 'string' || typeof value === 'number') return `${format_path(key)}=${value}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,97 @@
+import { Path, format_path } from './path';
+import { SchemaIssue } from './schema';
+import { FrameSource } from './trace';
+import type { UnusedParameter } from './usage';
+
+// The base class of errors raised while evaluating. `path` is where in the output the error happened.
+export class SpogtanError extends Error {
+  constructor(message: string, readonly path: Path) {
+    super(path.length > 0 ? `${message} (at ${format_path(path)})` : message);
+    this.name = this.constructor.name;
+  }
+}
+
+// A problem found by an offline check of a config file, and where it is within the file.
+export interface CheckIssue {
+  path: Path;
+  message: string;
+}
+
+// A summary of a Frame which was searched for a parameter.
+export interface FrameSummary {
+  // The parameters which the frame sets.
+  keys: string[];
+  // Where the frame was created, if known.
+  source: FrameSource | undefined;
+}
+
+// Thrown when a required parameter isn't set by any Frame in the stack.
+export class MissingParameterError extends SpogtanError {
+  constructor(readonly parameter: string, path: Path, readonly frames: FrameSummary[]) {
+    super(`Missing required parameter ${parameter}`, path);
+    const frame_lines = frames.map((frame) => {
+      const source = frame.source && ` from ${frame.source.method}() at ${frame.source.call_site ?? '<unknown>'}`;
+      return `  {${frame.keys.join(', ')}}${source ?? ''}`;
+    });
+    this.message += `\nFrames searched, outermost first:\n${frame_lines.join('\n')}`;
+  }
+}
+
+// Thrown when the value of a parameter depends on itself, e.g. `name -> id -> name`.
+export class CycleError extends SpogtanError {
+  constructor(readonly cycle: string[], path: Path) {
+    super(`Parameter cycle: ${cycle.join(' -> ')}`, path);
+  }
+}
+
+// Thrown when a ref can't be resolved, because its anchor doesn't exist or depends on the ref itself.
+export class RefError extends SpogtanError {
+  constructor(message: string, readonly anchor: string, path: Path) {
+    super(message, path);
+  }
+}
+
+// Thrown when the value of a parameter doesn't match the schema given to `spogtan()`.
+export class ValidationError extends SpogtanError {
+  constructor(readonly parameter: string, path: Path, readonly issues: SchemaIssue[]) {
+    super(`Invalid value for parameter ${parameter}`, path);
+    this.message += issues.map((issue) => `\n  ${format_path([parameter, ...issue.path])}: ${issue.message}`).join('');
+  }
+}
+
+// Thrown when parameter overrides can't be loaded, e.g. because they set an unknown parameter or an invalid value.
+// These happen before evaluation, so have no output path.
+export class OverrideError extends SpogtanError {
+  constructor(message: string, readonly parameter: string | undefined) {
+    super(message, []);
+  }
+}
+
+// Thrown by `evaluate` with `unused: 'error'` when Frames set parameters which were never read. These are often typos,
+// or leftovers from components which no longer use them.
+export class UnusedParameterError extends SpogtanError {
+  constructor(readonly unused: UnusedParameter[]) {
+    super('Parameters were set but never read:', []);
+    this.message += unused
+      .map(({ parameter, origin, shadowed_by, did_you_mean }) => {
+        const reason = shadowed_by !== undefined ? `, shadowed by ${shadowed_by}` : '';
+        const typo = did_you_mean !== undefined ? `, did you mean ${did_you_mean}?` : '';
+        return `\n  ${parameter} from ${origin}${reason}${typo}`;
+      })
+      .join('');
+  }
+}
+
+// Thrown when the values given to `merge` can't be merged together.
+export class MergeError extends SpogtanError {}
+
+// Wraps an error thrown by a late value or InheritedOp, adding where in the output it was thrown.
+// The original error is available as `cause`.
+export class EvaluationError extends SpogtanError {
+  constructor(readonly cause: unknown, path: Path) {
+    super(cause instanceof Error ? cause.message : String(cause), path);
+    if (cause instanceof Error && cause.stack !== undefined) {
+      this.stack = `${this.name}: ${this.message}\nCaused by: ${cause.stack}`;
+    }
+  }
+}
@@ -0,0 +1,473 @@
+import { Path, format_path } from './path';
+import { is_plain_object, type_name } from './merge';
+import { replace_secrets } from './secret';
+
+// Serializers which turn the concrete result of `evaluate` into the text of common config formats.
+// They have no dependencies, and only accept plain data: objects, arrays, strings, numbers, booleans, bigints,
+// symbols (serialized as their description), null and undefined (which is omitted from objects). Secrets are written
+// as <redacted> unless `reveal_secrets` is set. Maps, Sets, Dates, URLs, Buffers and classes with a toJSON method are
+// converted to plain data first. YAML can also write values with tags, see `YAMLTag`.
+
+export interface FormatOptions {
+  // Emit object keys in sorted order rather than insertion order, so that output is stable regardless of how the
+  // config was put together.
+  sort_keys?: boolean;
+  // Write the values of secrets made with $.secret(), rather than <redacted>.
+  reveal_secrets?: boolean;
+}
+
+export interface YAMLOptions extends FormatOptions {
+  // The number of spaces to indent each nested level by. Defaults to 2.
+  indent?: number;
+  // Treat the value as an array of documents, and emit them as a multi-document stream.
+  multi_document?: boolean;
+}
+
+export interface JSONOptions extends FormatOptions {
+  // The number of spaces to indent each nested level by. Defaults to 2.
+  indent?: number;
+}
+
+// Thrown when a value can't be represented in the requested format. `path` is where in the value the problem is.
+export class FormatError extends Error {
+  constructor(message: string, readonly path: Path) {
+    super(path.length > 0 ? `${message} (at ${format_path(path)})` : message);
+    this.name = 'FormatError';
+  }
+}
+
+// A value which YAML writes with a tag, e.g. new YAMLTag('!Ref', 'Bucket') is written as !Ref Bucket. Other formats
+// have no representation for tags, and reject them.
+export class YAMLTag {
+  constructor(readonly tag: string, readonly value: unknown) {}
+}
+
+// Classes can be written as a YAMLTag in YAML by implementing a method with this key, while other formats convert them
+// by their toJSON method as usual.
+export const yaml_tag_symbol: unique symbol = Symbol('spogtan.yamlTag');
+export interface YAMLTaggable {
+  [yaml_tag_symbol](): YAMLTag;
+}
+
+// Serializes `value` as a YAML document, or a stream of YAML documents if `multi_document` is set.
+export function toYAML(value: unknown, options: YAMLOptions = {}): string {
+  value = plain_data(replace_secrets(value, options.reveal_secrets ?? false), [], true);
+  if (!options.multi_document) return yaml_document(value, [], options);
+  if (!(value instanceof Array)) {
+    throw new FormatError('A multi-document YAML stream must be given an array of documents', []);
+  }
+  return value.map((document, index) => '---\n' + yaml_document(document, [index], options)).join('');
+}
+
+// Serializes `value` as JSON. Unlike JSON.stringify, bigints and symbols are supported, and unsupported values are
+// reported rather than silently dropped.
+export function toJSON(value: unknown, options: JSONOptions = {}): string {
+  value = plain_data(replace_secrets(value, options.reveal_secrets ?? false), []);
+  return json_value(value, [], '', ' '.repeat(options.indent ?? 2), options) + '\n';
+}
+
+// Serializes `value`, which must be an object, as a TOML document.
+export function toTOML(value: unknown, options: FormatOptions = {}): string {
+  value = plain_data(replace_secrets(value, options.reveal_secrets ?? false), []);
+  if (!is_record(value)) throw new FormatError('A TOML document must be an object', []);
+  return toml_table(value, [], [], options).join('\n') + '\n';
+}
+
+// Serializes `value`, which must be a flat object of scalars, as a .env file.
+export function toDotenv(value: unknown, options: FormatOptions = {}): string {
+  value = plain_data(replace_secrets(value, options.reveal_secrets ?? false), []);
+  if (!is_record(value)) throw new FormatError('A .env file must be an object', []);
+  return entries_of(value, options)
+    .map(([key, item]) => {
+      const path = [key];
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new FormatError(`${JSON.stringify(key)} is not a valid environment variable name`, path);
+      }
+      const string = scalar_to_string(item, path, '.env');
+      const quoted = /^[\w@%+=:,./-]*$/.test(string) ? string : `"${string.replace(/[\\"$`]/g, '\\$&')}"`;
+      return `${key}=${quoted.replace(/\n/g, '\\n')}\n`;
+    })
+    .join('');
+}
+
+function is_record(value: unknown): value is Record<string, unknown> {
+  return is_plain_object(value);
+}
+
+// Converts values with an obvious representation as plain data: Maps to objects, Sets to arrays, Dates to ISO 8601
+// strings, URLs to strings and Buffers to base64. Instances of other classes are converted by their toJSON method, if
+// they have one, and are otherwise left for the serializer to reject. With `tags`, YAMLTaggable values are converted to
+// YAMLTags instead.
+export function plain_data(value: unknown, path: Path, tags = false): unknown {
+  if (tags && is_yaml_taggable(value)) {
+    return plain_data(value[yaml_tag_symbol](), path, tags);
+  } else if (value instanceof YAMLTag) {
+    return new YAMLTag(value.tag, plain_data(value.value, path, tags));
+  } else if (value instanceof Date) {
+    return value.toISOString();
+  } else if (value instanceof URL) {
+    return value.href;
+  } else if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  } else if (value instanceof Array || value instanceof Set) {
+    return [...value].map((item, index) => plain_data(item, path.concat(index), tags));
+  } else if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value].map(([key, item]) => {
+        if (typeof key !== 'string' && typeof key !== 'number') {
+          throw new FormatError(`Can't serialize a Map with ${describe(key)} as a key`, path);
+        }
+        return [key, plain_data(item, path.concat(String(key)), tags)];
+      }),
+    );
+  } else if (is_record(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, plain_data(item, path.concat(key), tags)]),
+    );
+  } else if (value instanceof Object && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return plain_data((value as { toJSON(): unknown }).toJSON(), path, tags);
+  }
+  return value;
+}
+
+function is_yaml_taggable(value: unknown): value is YAMLTaggable {
+  return value instanceof Object && typeof (value as Partial<YAMLTaggable>)[yaml_tag_symbol] === 'function';
+}
+
+// Returns the entries of an object to serialize, without undefined values and in the requested order.
+function entries_of(object: Record<string, unknown>, options: FormatOptions): [string, unknown][] {
+  const entries = Object.entries(object).filter(([, value]) => value !== undefined);
+  return options.sort_keys ? entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)) : entries;
+}
+
+function symbol_to_string(value: symbol, path: Path): string {
+  if (value.description === undefined) throw new FormatError("Can't serialize a symbol without a description", path);
+  return value.description;
+}
+
+// Converts a scalar to a string for formats where everything is a string.
+function scalar_to_string(value: unknown, path: Path, format: string): string {
+  switch (typeof value) {
+    case 'string':
+      return value;
+    case 'number':
+    case 'boolean':
+    case 'bigint':
+      return String(value);
+    case 'symbol':
+      return symbol_to_string(value, path);
+  }
+  if (value === null) throw new FormatError(`${format} has no representation for null`, path);
+  throw new FormatError(`Can't serialize ${describe(value)} in ${format}, only scalars are supported`, path);
+}
+
+function describe(value: unknown): string {
+  if (value instanceof Function) return 'a function (did you forget to evaluate it?)';
+  if (value instanceof Array) return 'an array';
+  if (value === null) return 'null';
+  if (typeof value === 'object' && !is_record(value)) return `an instance of ${type_name(value)}`;
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function unsupported(value: unknown, path: Path, format: string): FormatError {
+  return new FormatError(`Can't serialize ${describe(value)} in ${format}`, path);
+}
+
+// YAML
+
+// Strings that a YAML 1.1 or 1.2 parser would resolve to something other than a string if left unquoted.
+const yaml_ambiguous_patterns = [
+  /^(?:~|null|true|false|yes|no|on|off|y|n|<<|=)$/i,
+  /^[-+]?\d[\d_]*$/, // Integers, including octal like 0755
+  /^[-+]?0(?:x[\da-f_]+|o[0-7_]+|b[01_]+)$/i,
+  /^[-+]?(?:\d[\d_]*)?\.[\d_]*(?:e[-+]?\d+)?$/i,
+  /^[-+]?\d[\d_]*(?:\.[\d_]*)?e[-+]?\d+$/i,
+  /^[-+]?\d[\d_]*(?::[0-5]?\d)+(?:\.[\d_]*)?$/, // Sexagesimal numbers, e.g. 1:30
+  /^[-+]?\.(?:inf|nan)$/i,
+  /^\d{4}-\d\d?-\d\d?(?:[Tt ]|$)/, // Timestamps
+];
+
+// Characters which can only be written in a double quoted string.
+const yaml_unprintable = /[\x00-\x08\x0b-\x1f\x7f\x85\u2028\u2029\ufeff]/; // eslint-disable-line no-control-regex
+
+function yaml_document(value: unknown, path: Path, options: YAMLOptions): string {
+  const indent = options.indent ?? 2;
+  if (is_yaml_collection(value)) {
+    return yaml_collection(value, path, indent, options).join('\n') + '\n';
+  } else if (value instanceof YAMLTag) {
+    return yaml_tagged(value.tag, value.value, path, indent, options).join('\n') + '\n';
+  }
+  // The indentation indicator of a block scalar is relative to the parent node, and there is none at the top level
+  if (typeof value === 'string' && can_use_block_scalar(value) && !/^\s/.test(value)) {
+    return [yaml_block_header(value, indent), ...yaml_block_lines(value, indent)].join('\n') + '\n';
+  }
+  return yaml_scalar(value, path) + '\n';
+}
+
+// Non-empty arrays and objects are written in block style. Empty ones are written inline as [] and {}.
+function is_yaml_collection(value: unknown): value is unknown[] | Record<string, unknown> {
+  return value instanceof Array
+    ? value.length > 0
+    : is_record(value) && Object.values(value).some((v) => v !== undefined);
+}
+
+// Returns the lines of a block collection, unindented.
+function yaml_collection(
+  value: unknown[] | Record<string, unknown>,
+  path: Path,
+  indent: number,
+  options: YAMLOptions,
+): string[] {
+  const lines: string[] = [];
+  const padding = ' '.repeat(indent);
+
+  if (value instanceof Array) {
+    const dash = '-'.padEnd(indent, ' ');
+    value.forEach((item, index) => {
+      const item_path = path.concat(index);
+      if (is_yaml_collection(item)) {
+        const [first, ...rest] = yaml_collection(item, item_path, indent, options);
+        lines.push(dash + first, ...rest.map((line) => indent_line(line, padding)));
+      } else {
+        lines.push(...yaml_inline_or_block(`-`, item, item_path, indent, options));
+      }
+    });
+  } else {
+    for (const [key, item] of entries_of(value, options)) {
+      const item_path = path.concat(key);
+      const yaml_key = yaml_string(key);
+      if (is_yaml_collection(item)) {
+        lines.push(`${yaml_key}:`);
+        lines.push(...yaml_collection(item, item_path, indent, options).map((line) => indent_line(line, padding)));
+      } else {
+        lines.push(...yaml_inline_or_block(`${yaml_key}:`, item, item_path, indent, options));
+      }
+    }
+  }
+  return lines;
+}
+
+// Writes a scalar after `prefix`, using a block scalar if it is a multi-line string.
+function yaml_inline_or_block(
+  prefix: string,
+  value: unknown,
+  path: Path,
+  indent: number,
+  options: YAMLOptions,
+): string[] {
+  if (value instanceof YAMLTag) return yaml_tagged(`${prefix} ${value.tag}`, value.value, path, indent, options);
+  if (typeof value === 'string' && can_use_block_scalar(value)) {
+    return [`${prefix} ${yaml_block_header(value, indent)}`, ...yaml_block_lines(value, indent)];
+  }
+  return [`${prefix} ${yaml_scalar(value, path)}`];
+}
+
+// Writes a tagged value after `prefix`, which ends with its tag. Collections go on the lines after it, indented.
+function yaml_tagged(prefix: string, value: unknown, path: Path, indent: number, options: YAMLOptions): string[] {
+  if (!is_yaml_collection(value)) return yaml_inline_or_block(prefix, value, path, indent, options);
+  const padding = ' '.repeat(indent);
+  return [prefix, ...yaml_collection(value, path, indent, options).map((line) => indent_line(line, padding))];
+}
+
+// Indents a line, leaving blank lines empty so that no trailing whitespace is introduced.
+function indent_line(line: string, padding: string): string {
+  return line === '' ? line : padding + line;
+}
+
+// Strings which are only line breaks have no content for a block scalar to keep them after, so they're quoted.
+function can_use_block_scalar(value: string): boolean {
+  return /[^\n]/.test(value) && value.includes('\n') && !value.includes('\r') && !yaml_unprintable.test(value);
+}
+
+// Block scalars need an explicit indentation indicator if they start with whitespace, and a chomping indicator
+// which describes how many trailing newlines they have.
+function yaml_block_header(value: string, indent: number): string {
+  const indentation = /^\s/.test(value) ? String(indent) : '';
+  const chomping = !value.endsWith('\n') ? '-' : value.endsWith('\n\n') ? '+' : '';
+  return `|${indentation}${chomping}`;
+}
+
+function yaml_block_lines(value: string, indent: number): string[] {
+  const body = value.endsWith('\n') ? value.slice(0, -1) : value;
+  const padding = ' '.repeat(indent);
+  return body.split('\n').map((line) => indent_line(line, padding));
+}
+
+function yaml_scalar(value: unknown, path: Path): string {
+  switch (typeof value) {
+    case 'string':
+      return yaml_string(value);
+    case 'number':
+      if (Number.isNaN(value)) return '.nan';
+      if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+      return String(value);
+    case 'boolean':
+    case 'bigint':
+      return String(value);
+    case 'symbol':
+      return yaml_string(symbol_to_string(value, path));
+    case 'undefined':
+      return 'null';
+  }
+  if (value === null) return 'null';
+  if (value instanceof Array) return '[]';
+  if (is_record(value)) return '{}';
+  throw unsupported(value, path, 'YAML');
+}
+
+// Writes a string as a plain scalar where that is unambiguous, otherwise quotes it.
+function yaml_string(value: string): string {
+  if (yaml_unprintable.test(value) || value.includes('\n') || value.includes('\r')) {
+    return yaml_double_quoted(value);
+  }
+  const needs_quotes =
+    value === '' ||
+    /^\s|\s$/.test(value) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    value.startsWith('...') ||
+    /:(\s|$)|\s#|\t/.test(value) ||
+    yaml_ambiguous_patterns.some((pattern) => pattern.test(value));
+  if (!needs_quotes) return value;
+  // Single quoted strings are the most readable, since their only escape sequence is ''
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function yaml_double_quoted(value: string): string {
+  const escapes: Record<string, string> = {
+    '\\': '\\\\',
+    '"': '\\"',
+    '\0': '\\0',
+    '\b': '\\b',
+    '\t': '\\t',
+    '\n': '\\n',
+    '\r': '\\r',
+    '\x1b': '\\e',
+    '\x85': '\\N',
+    '\u2028': '\\L',
+    '\u2029': '\\P',
+  };
+  const escaped = value.replace(
+    /[\\"\x00-\x1f\x7f\x85\u2028\u2029\ufeff]/g, // eslint-disable-line no-control-regex
+    (character) => escapes[character] ?? `\\u${character.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+  return `"${escaped}"`;
+}
+
+// JSON
+
+function json_value(value: unknown, path: Path, current: string, indent: string, options: JSONOptions): string {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      if (!Number.isFinite(value)) throw new FormatError(`JSON has no representation for ${value}`, path);
+      return JSON.stringify(value);
+    case 'boolean':
+    case 'bigint':
+      return String(value);
+    case 'symbol':
+      return JSON.stringify(symbol_to_string(value, path));
+  }
+  if (value === null) return 'null';
+
+  const inner = current + indent;
+  if (value instanceof Array) {
+    if (value.length === 0) return '[]';
+    const items = value.map((item, index) =>
+      item === undefined ? 'null' : json_value(item, path.concat(index), inner, indent, options),
+    );
+    return `[\n${items.map((item) => inner + item).join(',\n')}\n${current}]`;
+  }
+  if (is_record(value)) {
+    const entries = entries_of(value, options);
+    if (entries.length === 0) return '{}';
+    const items = entries.map(
+      ([key, item]) => `${inner}${JSON.stringify(key)}: ${json_value(item, path.concat(key), inner, indent, options)}`,
+    );
+    return `{\n${items.join(',\n')}\n${current}}`;
+  }
+  throw unsupported(value, path, 'JSON');
+}
+
+// TOML
+
+// Returns the lines of a TOML table's contents. Key/value pairs must come before any sub-tables, since everything
+// after a table header belongs to that table. `keys` is the table's name, which unlike `path` skips array indices.
+function toml_table(table: Record<string, unknown>, path: Path, keys: string[], options: FormatOptions): string[] {
+  const lines: string[] = [];
+  const sub_tables: [string, Record<string, unknown> | Record<string, unknown>[]][] = [];
+
+  for (const [key, value] of entries_of(table, options)) {
+    if (is_record(value) && Object.keys(value).length > 0) {
+      sub_tables.push([key, value]);
+    } else if (value instanceof Array && value.length > 0 && value.every(is_record)) {
+      sub_tables.push([key, value as Record<string, unknown>[]]);
+    } else {
+      lines.push(`${toml_key(key)} = ${toml_inline(value, path.concat(key), options)}`);
+    }
+  }
+
+  for (const [key, value] of sub_tables) {
+    const table_path = path.concat(key);
+    const table_keys = keys.concat(key);
+    const header = table_keys.map(toml_key).join('.');
+    if (value instanceof Array) {
+      value.forEach((item, index) => {
+        if (lines.length > 0) lines.push('');
+        lines.push(`[[${header}]]`, ...toml_table(item, table_path.concat(index), table_keys, options));
+      });
+    } else {
+      if (lines.length > 0) lines.push('');
+      lines.push(`[${header}]`, ...toml_table(value, table_path, table_keys, options));
+    }
+  }
+  return lines;
+}
+
+function toml_key(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : toml_string(key);
+}
+
+function toml_string(value: string): string {
+  const escapes: Record<string, string> = {
+    '\\': '\\\\',
+    '"': '\\"',
+    '\b': '\\b',
+    '\t': '\\t',
+    '\n': '\\n',
+    '\f': '\\f',
+    '\r': '\\r',
+  };
+  const escaped = value.replace(
+    /[\\"\x00-\x1f\x7f]/g, // eslint-disable-line no-control-regex
+    (character) => escapes[character] ?? `\\u${character.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+  return `"${escaped}"`;
+}
+
+function toml_inline(value: unknown, path: Path, options: FormatOptions): string {
+  switch (typeof value) {
+    case 'string':
+      return toml_string(value);
+    case 'number':
+      if (Number.isNaN(value)) return 'nan';
+      if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf';
+      return String(value);
+    case 'boolean':
+    case 'bigint':
+      return String(value);
+    case 'symbol':
+      return toml_string(symbol_to_string(value, path));
+  }
+  if (value === null || value === undefined) throw new FormatError('TOML has no representation for null', path);
+  if (value instanceof Array) {
+    return `[${value.map((item, index) => toml_inline(item, path.concat(index), options)).join(', ')}]`;
+  }
+  if (is_record(value)) {
+    const entries = entries_of(value, options);
+    if (entries.length === 0) return '{}';
+    const items = entries.map(([key, item]) => `${toml_key(key)} = ${toml_inline(item, path.concat(key), options)}`);
+    return `{ ${items.join(', ')} }`;
+  }
+  throw unsupported(value, path, 'TOML');
+}
@@ -0,0 +1,397 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { load_module } from './load';
+import { is_plain_object } from './merge';
+import { fromYAML } from './parse';
+import { Path } from './path';
+import { evaluateAsync } from './spogtan';
+
+// Turns config files which are variations of the same document into a module with a component for what they have in
+// common, and a Parameter for each value which differs between them.
+
+export interface ImportOptions {
+  // The path of the module to write, e.g. deploy/service.ts. The component is named after it.
+  out: string;
+}
+
+export interface ImportResult {
+  // The path of the module which was written.
+  module: string;
+  // The names of the Parameters which the files set.
+  parameters: string[];
+}
+
+// Thrown when files can't be imported, or when the module made from them doesn't reproduce them.
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// A value which differs between the files, and its value in each of them.
+interface Parameter {
+  name: string;
+  values: unknown[];
+}
+
+// The structure that the files have in common, with the values which differ between them left to Parameters.
+type Shape =
+  | { kind: 'constant'; value: unknown }
+  | { kind: 'object'; entries: [string, Shape][] }
+  | { kind: 'array'; items: Shape[] }
+  | { kind: 'parameter'; parameter: Parameter }
+  | { kind: 'template'; parts: (string | Parameter)[] };
+
+// Writes a module made from `files`, and checks that evaluating it reproduces each of them.
+export async function import_configs(files: string[], options: ImportOptions): Promise<ImportResult> {
+  const documents = files.map(read_document);
+  const parameters: Parameter[] = [];
+  const shape = with_templates(shape_of(documents, [], parameters), parameters);
+  const set = parameters.filter((parameter) => used_in(shape, parameter));
+  const defaults = new Map(set.map((parameter) => [parameter, default_of(parameter)]));
+  const keys = files.map((file) => path.relative(path.dirname(options.out), file).split(path.sep).join('/'));
+
+  const component = identifier(path.basename(options.out).replace(/\..*$/, ''));
+  const frame = (index: number) =>
+    set
+      .filter((parameter) => {
+        const default_value = defaults.get(parameter);
+        return default_value === undefined || !equal(default_value.value, parameter.values[index]);
+      })
+      .map((parameter) => [parameter.name, parameter.values[index]] as const);
+  const default_frame = set.flatMap((parameter) => {
+    const default_value = defaults.get(parameter);
+    return default_value === undefined ? [] : [[parameter.name, default_value.value] as const];
+  });
+
+  const source = [
+    `// Generated by spogtan import. \`${component}\` is what the imported files have in common, and each of them sets`,
+    '// the Parameters which differ.',
+    "import { spogtan } from 'spogtan';",
+    '',
+    'export interface Parameters {',
+    ...set.map((parameter) => `  ${key_code(parameter.name)}: ${type_of(parameter.values)};`),
+    '}',
+    '',
+    'const $ = spogtan<Parameters>();',
+    '',
+    `export const ${component} = $.wrap_with_defaults(${object_literal(default_frame, '')}, ${code(shape, '')});`,
+    '',
+    'export default {',
+    ...keys.map((file, index) => `  ${quote(file)}: $.with(${object_literal(frame(index), '  ')}, ${component}()),`),
+    '};',
+    '',
+  ].join('\n');
+
+  fs.mkdirSync(path.dirname(path.resolve(options.out)), { recursive: true });
+  fs.writeFileSync(options.out, source);
+
+  const differ = await differing_files(options.out, keys, documents);
+  if (differ.length > 0) {
+    throw new ImportError(
+      `Evaluating ${options.out} doesn't reproduce ${differ.join(', ')}, which is a bug in spogtan import. ` +
+        'The module has been left as it is.',
+    );
+  }
+  return { module: options.out, parameters: set.map((parameter) => parameter.name) };
+}
+
+function read_document(file: string): unknown {
+  const extension = path.extname(file);
+  if (!['.yaml', '.yml', '.json'].includes(extension)) {
+    throw new ImportError(`Can't import ${file}, only .yaml, .yml and .json files are supported`);
+  }
+  let text;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch {
+    throw new ImportError(`Can't read ${file}`);
+  }
+  try {
+    return extension === '.json' ? JSON.parse(text) : fromYAML(text);
+  } catch (error) {
+    throw new ImportError(`Can't parse ${file}: ${(error as Error).message}`);
+  }
+}
+
+// Compares what the module at `module` evaluates to against the documents it was made from, returning the files which
+// differ. Keys are compared in order, since that's what a file which was written again would have.
+async function differing_files(module: string, keys: string[], documents: unknown[]): Promise<string[]> {
+  delete require.cache[path.resolve(module)];
+  const exported = load_module(module) as Record<string, unknown>;
+  const differ = [];
+  for (const [index, file] of keys.entries()) {
+    if (!equal(await evaluateAsync(exported[file] as unknown), documents[index])) differ.push(file);
+  }
+  return differ;
+}
+
+// Finds where `values` differ from each other, going into objects with the same keys and arrays of the same length.
+// Values which differ in the same way at several places are the same Parameter, e.g. a name and a label set to it.
+function shape_of(values: unknown[], at: Path, parameters: Parameter[]): Shape {
+  const [first] = values;
+  if (values.every((value) => equal(value, first))) {
+    return { kind: 'constant', value: first };
+  } else if (is_plain_object(first) && values.every((value) => is_plain_object(value) && same_keys(value, first))) {
+    return {
+      kind: 'object',
+      entries: Object.keys(first).map((key) => [
+        key,
+        shape_of(
+          values.map((value) => (value as Record<string, unknown>)[key]),
+          [...at, key],
+          parameters,
+        ),
+      ]),
+    };
+  } else if (
+    first instanceof Array &&
+    values.every((value) => value instanceof Array && value.length === first.length)
+  ) {
+    return {
+      kind: 'array',
+      items: first.map((_, index) =>
+        shape_of(
+          values.map((value) => (value as unknown[])[index]),
+          [...at, index],
+          parameters,
+        ),
+      ),
+    };
+  }
+  let parameter = parameters.find((parameter) => equal(parameter.values, values));
+  if (parameter === undefined) {
+    parameter = { name: parameter_name(at, parameters), values };
+    parameters.push(parameter);
+  }
+  return { kind: 'parameter', parameter };
+}
+
+function same_keys(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  return equal(Object.keys(a), Object.keys(b));
+}
+
+// Names a Parameter after the last key of where it is, along with as many keys before it as it takes to be unique,
+// e.g. replicas or spec_replicas.
+function parameter_name(at: Path, parameters: Parameter[]): string {
+  const segments = at.length === 0 ? ['value'] : at.map((segment) => snake_case(String(segment)));
+  const taken = (name: string) => parameters.some((parameter) => parameter.name === name);
+  const shortest = Math.min(typeof at[at.length - 1] === 'number' ? 2 : 1, segments.length);
+  for (let length = shortest; length <= segments.length; ++length) {
+    const name = identifier(segments.slice(-length).join('_'));
+    if (!taken(name)) return name;
+  }
+  const name = identifier(segments.join('_'));
+  let suffix = 2;
+  while (taken(`${name}_${suffix}`)) ++suffix;
+  return `${name}_${suffix}`;
+}
+
+function snake_case(string: string): string {
+  return string.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+function identifier(string: string): string {
+  const name = string.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return name === '' ? 'value' : /^\d/.test(name) ? `_${name}` : name;
+}
+
+// Parameters whose values are strings made from the values of other Parameters in the same way in every file, e.g.
+// api.example.com and web.example.com from api and web, are written as templates of those Parameters instead.
+function with_templates(shape: Shape, parameters: Parameter[]): Shape {
+  const templates = new Map<Parameter, (string | Parameter)[]>();
+  const used = new Set<Parameter>();
+  const length = (parameter: Parameter) => Math.min(...parameter.values.map((value) => String(value).length));
+  for (const parameter of [...parameters].sort((a, b) => length(b) - length(a))) {
+    if (used.has(parameter) || !parameter.values.every((value) => typeof value === 'string')) continue;
+    const sources = parameters
+      .filter((source) => source !== parameter && !templates.has(source))
+      .filter((source) =>
+        source.values.every((value) => (typeof value === 'string' && value !== '') || typeof value === 'number'),
+      )
+      .sort((a, b) => length(b) - length(a));
+    let parts = parameter.values.map((value) => [value as string] as (string | Parameter)[]);
+    const from: Parameter[] = [];
+    for (const source of sources) {
+      const replaced = parts.map((file_parts, index) =>
+        file_parts.flatMap((part) =>
+          typeof part === 'string'
+            ? part
+                .split(String(source.values[index]))
+                .flatMap((literal, i) => (i === 0 ? [literal] : [source, literal]))
+            : [part],
+        ),
+      );
+      const count = (file_parts: (string | Parameter)[]) => file_parts.filter((part) => part === source).length;
+      if (count(replaced[0]) > 0 && replaced.every((file_parts) => count(file_parts) === count(replaced[0]))) {
+        parts = replaced;
+        from.push(source);
+      }
+    }
+    if (from.length > 0 && parts.every((file_parts) => equal(file_parts, parts[0]))) {
+      templates.set(
+        parameter,
+        parts[0].filter((part) => part !== ''),
+      );
+      from.forEach((source) => used.add(source));
+    }
+  }
+
+  const replace = (shape: Shape): Shape => {
+    switch (shape.kind) {
+      case 'object':
+        return { kind: 'object', entries: shape.entries.map(([key, entry]) => [key, replace(entry)]) };
+      case 'array':
+        return { kind: 'array', items: shape.items.map(replace) };
+      case 'parameter': {
+        const parts = templates.get(shape.parameter);
+        return parts === undefined ? shape : { kind: 'template', parts };
+      }
+    }
+    return shape;
+  };
+  return replace(shape);
+}
+
+function used_in(shape: Shape, parameter: Parameter): boolean {
+  switch (shape.kind) {
+    case 'object':
+      return shape.entries.some(([, entry]) => used_in(entry, parameter));
+    case 'array':
+      return shape.items.some((item) => used_in(item, parameter));
+    case 'parameter':
+      return shape.parameter === parameter;
+    case 'template':
+      return shape.parts.includes(parameter);
+  }
+  return false;
+}
+
+// A Parameter's most common value, if most of the files have it.
+function default_of(parameter: Parameter): { value: unknown } | undefined {
+  let most_common: { value: unknown; count: number } | undefined;
+  for (const value of parameter.values) {
+    const count = parameter.values.filter((other) => equal(other, value)).length;
+    if (most_common === undefined || count > most_common.count) most_common = { value, count };
+  }
+  const { value, count } = most_common as { value: unknown; count: number };
+  return count > 1 && count > parameter.values.length / 2 ? { value } : undefined;
+}
+
+// Compares plain data, including the order of object keys.
+function equal(a: unknown, b: unknown): boolean {
+  if (a instanceof Array) {
+    return b instanceof Array && a.length === b.length && a.every((item, index) => equal(item, b[index]));
+  } else if (is_plain_object(a)) {
+    return is_plain_object(b) && same_keys(a, b) && Object.keys(a).every((key) => equal(a[key], b[key]));
+  }
+  return Object.is(a, b);
+}
+
+// Typescript
+
+function code(shape: Shape, indent: string): string {
+  const inner = indent + '  ';
+  switch (shape.kind) {
+    case 'constant':
+      return literal(shape.value, indent);
+    case 'parameter':
+      return `$.get(${quote(shape.parameter.name)})`;
+    case 'template':
+      return (
+        '$.template`' +
+        shape.parts
+          .map((part) => (typeof part === 'string' ? part.replace(/[`\\]|\$\{/g, '\\$&') : `\${${quote(part.name)}}`))
+          .join('') +
+        '`'
+      );
+    case 'array':
+      return bracketed(
+        '[',
+        shape.items.map((item) => code(item, inner)),
+        ']',
+        indent,
+      );
+    case 'object': {
+      // Leading keys which are set to the Parameter of the same name can be written with $.objectify
+      const objectified = shape.entries.findIndex(
+        ([key, entry]) => entry.kind !== 'parameter' || entry.parameter.name !== key,
+      );
+      const count = objectified === -1 ? shape.entries.length : objectified;
+      const rest = shape.entries.slice(count).map(([key, entry]) => `${key_code(key)}: ${code(entry, inner)}`);
+      const object = bracketed('{', rest, '}', indent);
+      if (count === 0) return object;
+      const parameters = shape.entries.slice(0, count).map(([key]) => quote(key));
+      return `$.objectify([${parameters.join(', ')}]${rest.length === 0 ? '' : `, ${object}`})`;
+    }
+  }
+}
+
+function object_literal(entries: (readonly [string, unknown])[], indent: string): string {
+  return bracketed(
+    '{',
+    entries.map(([name, value]) => `${key_code(name)}: ${literal(value, indent + '  ')}`),
+    '}',
+    indent,
+  );
+}
+
+function literal(value: unknown, indent: string): string {
+  if (typeof value === 'string') return quote(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (value instanceof Array) {
+    return bracketed(
+      '[',
+      value.map((item) => literal(item, indent + '  ')),
+      ']',
+      indent,
+    );
+  }
+  if (is_plain_object(value)) return object_literal(Object.entries(value), indent);
+  return String(value);
+}
+
+// Writes short lists of items on one line, and others with an item on each line.
+function bracketed(open: string, items: string[], close: string, indent: string): string {
+  if (items.length === 0) return open + close;
+  const padding = open === '{' ? ' ' : '';
+  const inline = `${open}${padding}${items.join(', ')}${padding}${close}`;
+  if (!items.some((item) => item.includes('\n')) && inline.length <= 60) return inline;
+  return `${open}\n${items.map((item) => `${indent}  ${item},\n`).join('')}${indent}${close}`;
+}
+
+function key_code(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name);
+}
+
+function quote(string: string): string {
+  return `'${JSON.stringify(string).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+// The type of a Parameter, from its values in each file.
+function type_of(values: unknown[]): string {
+  const types = new Set<string>();
+  const arrays: unknown[][] = [];
+  const objects: Record<string, unknown>[] = [];
+  for (const value of values) {
+    if (value instanceof Array) arrays.push(value);
+    else if (is_plain_object(value)) objects.push(value);
+    else types.add(value === null ? 'null' : typeof value);
+  }
+  if (arrays.length > 0) {
+    const items = arrays.flat();
+    const item_type = items.length === 0 ? 'unknown' : type_of(items);
+    types.add(item_type.includes(' ') ? `(${item_type})[]` : `${item_type}[]`);
+  }
+  if (objects.length > 0) {
+    const keys = [...new Set(objects.flatMap((object) => Object.keys(object)))];
+    const fields = keys.map((name) => {
+      const present = objects.filter((object) => name in object);
+      const optional = present.length < objects.length ? '?' : '';
+      return `${key_code(name)}${optional}: ${type_of(present.map((object) => object[name]))}`;
+    });
+    types.add(fields.length === 0 ? 'Record<string, never>' : `{ ${fields.join('; ')} }`);
+  }
+  return [...types].join(' | ');
+}
@@ -0,0 +1,280 @@
+import {
+  CallableSpogtan,
+  DeepPartial,
+  Evaluated,
+  Frame,
+  Spogtan,
+  Steps,
+  deepMerge,
+  merge,
+  stepped_late_value,
+} from './spogtan';
+import { FormatError, YAMLOptions, toYAML } from './format';
+import { is_plain_object } from './merge';
+import {
+  ConfigMap,
+  Container,
+  Deployment,
+  Ingress,
+  KubernetesObject,
+  List,
+  ObjectMeta,
+  ResourceRequirements,
+  Service,
+  StatefulSet,
+} from './k8s_types';
+
+// Components for common Kubernetes objects, which are made from the same Parameters so that they stay consistent with
+// each other: a Service selects the Pods of the Deployment with the same name, and exposes the same ports.
+
+// A partial object to deep merge onto one of the objects made here, like a kustomize patch. Arrays of containers,
+// ports and env vars are merged by name, and other arrays are replaced.
+export type Patch<T> = DeepPartial<T>;
+
+export type Patches = { [Kind in KubernetesObject['kind']]?: Patch<Extract<KubernetesObject, { kind: Kind }>> };
+
+export interface KubernetesParameters {
+  name: string;
+  // Left out of the objects if it isn't set, so that kubectl uses the namespace of its context.
+  namespace: string;
+  image: string;
+  replicas: number;
+  // Container ports by name, e.g. { http: 8080 }. Services expose the same ports, with the same names.
+  ports: Record<string, number>;
+  env: Record<string, string>;
+  resources: ResourceRequirements;
+  // Added to every object and Pod, along with app.kubernetes.io/name, which selectors match on.
+  labels: Record<string, string>;
+  annotations: Record<string, string>;
+  // The host and path an Ingress routes to the Service's first port.
+  host: string;
+  path: string;
+  // The data of a ConfigMap.
+  data: Record<string, string>;
+  // Deep merged onto the objects of each kind, e.g. { Deployment: { spec: { strategy: { type: 'Recreate' } } } }
+  patches: Patches;
+}
+
+// The instance which the components use. Use $k8s.extend<MoreParameters>() to add Parameters of your own.
+export const $k8s = new Spogtan<KubernetesParameters>() as CallableSpogtan<KubernetesParameters>;
+
+const defaults: Frame<KubernetesParameters> = {
+  replicas: 1,
+  ports: {},
+  env: {},
+  resources: {},
+  labels: {},
+  annotations: {},
+  path: '/',
+  patches: {},
+};
+
+const patch_strategies = deepMerge.with({
+  strategies: {
+    'spec.template.spec.containers': { union_by_key: 'name' },
+    'spec.template.spec.containers[].ports': { union_by_key: 'name' },
+    'spec.template.spec.containers[].env': { union_by_key: 'name' },
+    'spec.ports': { union_by_key: 'name' },
+  },
+});
+
+// Looks up `parameter` by yielding it, so that the components below can be given async values by evaluateAsync.
+function* get<Param extends keyof KubernetesParameters>(parameter: Param): Steps<KubernetesParameters[Param]> {
+  return (yield $k8s.get(parameter)) as KubernetesParameters[Param];
+}
+
+function* get_optional<Param extends keyof KubernetesParameters>(
+  parameter: Param,
+): Steps<KubernetesParameters[Param] | undefined> {
+  return (yield $k8s.get(parameter, false)) as KubernetesParameters[Param] | undefined;
+}
+
+// The labels which Services and workloads select Pods by.
+function* selector_labels(): Steps<Record<string, string>> {
+  return { 'app.kubernetes.io/name': yield* get('name') };
+}
+
+function* labels(): Steps<Record<string, string>> {
+  return { ...(yield* get('labels')), ...(yield* selector_labels()) };
+}
+
+function* metadata(): Steps<ObjectMeta> {
+  return {
+    name: yield* get('name'),
+    namespace: yield* get_optional('namespace'),
+    labels: yield* labels(),
+    annotations: non_empty(yield* get('annotations')),
+  };
+}
+
+function* container(): Steps<Container> {
+  return {
+    name: yield* get('name'),
+    image: yield* get('image'),
+    ports: non_empty(Object.entries(yield* get('ports')).map(([name, containerPort]) => ({ name, containerPort }))),
+    env: non_empty(Object.entries(yield* get('env')).map(([name, value]) => ({ name, value }))),
+    resources: non_empty(yield* get('resources')),
+  };
+}
+
+// Applies the patch for `object`'s kind, if there is one. Both have been evaluated, so the merge is applied directly.
+function* patched<T extends KubernetesObject>(object: T): Steps<T> {
+  const patch = (yield* get('patches'))[object.kind];
+  return patch === undefined ? object : (patch_strategies<KubernetesObject>(patch)(object) as T);
+}
+
+export const deployment = $k8s.wrap_with_defaults<Deployment>(
+  defaults,
+  stepped_late_value(function* () {
+    return yield* patched<Deployment>({
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata: yield* metadata(),
+      spec: {
+        replicas: yield* get('replicas'),
+        selector: { matchLabels: yield* selector_labels() },
+        template: { metadata: { labels: yield* labels() }, spec: { containers: [yield* container()] } },
+      },
+    });
+  }),
+);
+
+// A StatefulSet, whose serviceName is the Service with the same name.
+export const stateful_set = $k8s.wrap_with_defaults<StatefulSet>(
+  defaults,
+  stepped_late_value(function* () {
+    return yield* patched<StatefulSet>({
+      apiVersion: 'apps/v1',
+      kind: 'StatefulSet',
+      metadata: yield* metadata(),
+      spec: {
+        replicas: yield* get('replicas'),
+        selector: { matchLabels: yield* selector_labels() },
+        serviceName: yield* get('name'),
+        template: { metadata: { labels: yield* labels() }, spec: { containers: [yield* container()] } },
+      },
+    });
+  }),
+);
+
+// A Service for the Pods of the workload with the same name, which exposes each of their ports by name.
+export const service = $k8s.wrap_with_defaults<Service>(
+  defaults,
+  stepped_late_value(function* () {
+    return yield* patched<Service>({
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata: yield* metadata(),
+      spec: {
+        selector: yield* selector_labels(),
+        ports: non_empty(Object.entries(yield* get('ports')).map(([name, port]) => ({ name, port, targetPort: name }))),
+      },
+    });
+  }),
+);
+
+// An Ingress which routes `host` and `path` to the first port of the Service with the same name.
+export const ingress = $k8s.wrap_with_defaults<Ingress>(
+  defaults,
+  stepped_late_value(function* () {
+    const name = yield* get('name');
+    const [port] = Object.keys(yield* get('ports'));
+    if (port === undefined) throw new Error(`The Ingress for ${name} needs its Service to have a port`);
+    return yield* patched<Ingress>({
+      apiVersion: 'networking.k8s.io/v1',
+      kind: 'Ingress',
+      metadata: yield* metadata(),
+      spec: {
+        rules: [
+          {
+            host: yield* get('host'),
+            http: {
+              paths: [
+                {
+                  path: yield* get('path'),
+                  pathType: 'Prefix',
+                  backend: { service: { name, port: { name: port } } },
+                },
+              ],
+            },
+          },
+        ],
+      },
+    });
+  }),
+);
+
+export const config_map = $k8s.wrap_with_defaults<ConfigMap>(
+  defaults,
+  stepped_late_value(function* () {
+    return yield* patched<ConfigMap>({
+      apiVersion: 'v1',
+      kind: 'ConfigMap',
+      metadata: yield* metadata(),
+      data: yield* get('data'),
+    });
+  }),
+);
+
+// Changes to apply on top of every object within a value, like a kustomize overlay.
+export interface Overlay {
+  namespace?: string;
+  name_prefix?: string;
+  name_suffix?: string;
+  // Merged into the labels, annotations and env of every object.
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  env?: Record<string, string>;
+  image?: string;
+  replicas?: number;
+  patches?: Patches;
+}
+
+// Applies `overlays` to every object within `value`, each on top of the ones before it, e.g.
+// overlay([deployment(), service()], { namespace: 'prod', labels: { env: 'prod' }, replicas: 3 })
+export function overlay<T>(value: T, ...overlays: Overlay[]): () => Evaluated<T> {
+  return overlays.reduceRight<unknown>(
+    (overlaid, overlay) => $k8s.overlay(overlay_frame(overlay), overlaid),
+    value,
+  ) as () => Evaluated<T>;
+}
+
+function overlay_frame(overlay: Overlay): Frame<KubernetesParameters> {
+  const frame: Frame<KubernetesParameters> = {};
+  if (overlay.namespace !== undefined) frame.namespace = overlay.namespace;
+  if (overlay.name_prefix !== undefined || overlay.name_suffix !== undefined) {
+    frame.name = $k8s.inherit((name) => `${overlay.name_prefix ?? ''}${name}${overlay.name_suffix ?? ''}`);
+  }
+  if (overlay.labels !== undefined) frame.labels = merge(overlay.labels);
+  if (overlay.annotations !== undefined) frame.annotations = merge(overlay.annotations);
+  if (overlay.env !== undefined) frame.env = merge(overlay.env);
+  if (overlay.image !== undefined) frame.image = overlay.image;
+  if (overlay.replicas !== undefined) frame.replicas = overlay.replicas;
+  if (overlay.patches !== undefined) frame.patches = deepMerge<Patches>(overlay.patches);
+  return frame;
+}
+
+// A List of `objects`, which kubectl accepts like a multi-document stream. This lets `spogtan build` write them to a
+// single YAML file.
+export function list<T>(objects: T): Omit<List, 'items'> & { items: T } {
+  return { apiVersion: 'v1', kind: 'List', items: objects };
+}
+
+// Serializes evaluated objects as a multi-document YAML stream for kubectl apply -f. Each one must have an apiVersion,
+// kind and name.
+export function toManifests(objects: KubernetesObject[], options: YAMLOptions = {}): string {
+  objects.forEach((object, index) => {
+    const missing = ['apiVersion', 'kind'].filter((key) => !is_plain_object(object) || typeof object[key] !== 'string');
+    if (typeof object?.metadata?.name !== 'string') missing.push('metadata.name');
+    if (missing.length > 0) {
+      throw new FormatError(`A Kubernetes object needs ${missing.join(', ')}`, [index]);
+    }
+  });
+  return toYAML(objects, { ...options, multi_document: true });
+}
+
+// Leaves empty objects and arrays out of the output.
+function non_empty<T>(value: T): T | undefined {
+  const empty = value instanceof Array ? value.length === 0 : Object.keys(value).length === 0;
+  return empty ? undefined : value;
+}
@@ -0,0 +1,211 @@
+// Types for the Kubernetes objects that `spogtan/k8s` makes, derived from the definitions in the Kubernetes 1.22
+// OpenAPI spec (io.k8s.api.* and io.k8s.apimachinery.*). Only the fields which are commonly set by hand are included,
+// but every field keeps its name, type and optionality from the spec, so that objects which check against these are
+// accepted by kubectl.
+
+// io.k8s.apimachinery.pkg.api.resource.Quantity, e.g. '500m' or '1Gi'
+export type Quantity = string | number;
+
+// io.k8s.apimachinery.pkg.util.intstr.IntOrString
+export type IntOrString = string | number;
+
+// io.k8s.apimachinery.pkg.apis.meta.v1.ObjectMeta
+export interface ObjectMeta {
+  name?: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+}
+
+// io.k8s.apimachinery.pkg.apis.meta.v1.LabelSelector
+export interface LabelSelector {
+  matchLabels?: Record<string, string>;
+  matchExpressions?: { key: string; operator: 'In' | 'NotIn' | 'Exists' | 'DoesNotExist'; values?: string[] }[];
+}
+
+// io.k8s.api.core.v1.ContainerPort
+export interface ContainerPort {
+  containerPort: number;
+  name?: string;
+  protocol?: 'TCP' | 'UDP' | 'SCTP';
+  hostPort?: number;
+}
+
+// io.k8s.api.core.v1.EnvVar
+export interface EnvVar {
+  name: string;
+  value?: string;
+  valueFrom?: {
+    configMapKeyRef?: { name: string; key: string; optional?: boolean };
+    secretKeyRef?: { name: string; key: string; optional?: boolean };
+    fieldRef?: { fieldPath: string; apiVersion?: string };
+  };
+}
+
+// io.k8s.api.core.v1.ResourceRequirements
+export interface ResourceRequirements {
+  limits?: Record<string, Quantity>;
+  requests?: Record<string, Quantity>;
+}
+
+// io.k8s.api.core.v1.Probe
+export interface Probe {
+  httpGet?: { path?: string; port: IntOrString; scheme?: 'HTTP' | 'HTTPS' };
+  tcpSocket?: { port: IntOrString };
+  exec?: { command?: string[] };
+  initialDelaySeconds?: number;
+  periodSeconds?: number;
+  timeoutSeconds?: number;
+  failureThreshold?: number;
+}
+
+// io.k8s.api.core.v1.VolumeMount
+export interface VolumeMount {
+  name: string;
+  mountPath: string;
+  readOnly?: boolean;
+  subPath?: string;
+}
+
+// io.k8s.api.core.v1.Container
+export interface Container {
+  name: string;
+  image?: string;
+  command?: string[];
+  args?: string[];
+  ports?: ContainerPort[];
+  env?: EnvVar[];
+  resources?: ResourceRequirements;
+  volumeMounts?: VolumeMount[];
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+  imagePullPolicy?: 'Always' | 'Never' | 'IfNotPresent';
+}
+
+// io.k8s.api.core.v1.Volume
+export interface Volume {
+  name: string;
+  configMap?: { name?: string; items?: { key: string; path: string }[]; optional?: boolean };
+  secret?: { secretName?: string; optional?: boolean };
+  emptyDir?: { medium?: string; sizeLimit?: Quantity };
+  persistentVolumeClaim?: { claimName: string; readOnly?: boolean };
+}
+
+// io.k8s.api.core.v1.PodSpec
+export interface PodSpec {
+  containers: Container[];
+  initContainers?: Container[];
+  volumes?: Volume[];
+  serviceAccountName?: string;
+  nodeSelector?: Record<string, string>;
+  restartPolicy?: 'Always' | 'OnFailure' | 'Never';
+}
+
+// io.k8s.api.core.v1.PodTemplateSpec
+export interface PodTemplateSpec {
+  metadata?: ObjectMeta;
+  spec?: PodSpec;
+}
+
+// io.k8s.api.core.v1.PersistentVolumeClaim
+export interface PersistentVolumeClaim {
+  apiVersion?: 'v1';
+  kind?: 'PersistentVolumeClaim';
+  metadata?: ObjectMeta;
+  spec?: {
+    accessModes?: ('ReadWriteOnce' | 'ReadOnlyMany' | 'ReadWriteMany' | 'ReadWriteOncePod')[];
+    resources?: ResourceRequirements;
+    storageClassName?: string;
+  };
+}
+
+// io.k8s.api.apps.v1.Deployment
+export interface Deployment {
+  apiVersion: 'apps/v1';
+  kind: 'Deployment';
+  metadata: ObjectMeta;
+  spec: {
+    replicas?: number;
+    selector: LabelSelector;
+    template: PodTemplateSpec;
+    strategy?: { type?: 'Recreate' | 'RollingUpdate' };
+  };
+}
+
+// io.k8s.api.apps.v1.StatefulSet
+export interface StatefulSet {
+  apiVersion: 'apps/v1';
+  kind: 'StatefulSet';
+  metadata: ObjectMeta;
+  spec: {
+    replicas?: number;
+    selector: LabelSelector;
+    serviceName: string;
+    template: PodTemplateSpec;
+    volumeClaimTemplates?: PersistentVolumeClaim[];
+  };
+}
+
+// io.k8s.api.core.v1.ServicePort
+export interface ServicePort {
+  port: number;
+  name?: string;
+  protocol?: 'TCP' | 'UDP' | 'SCTP';
+  targetPort?: IntOrString;
+  nodePort?: number;
+}
+
+// io.k8s.api.core.v1.Service
+export interface Service {
+  apiVersion: 'v1';
+  kind: 'Service';
+  metadata: ObjectMeta;
+  spec: {
+    type?: 'ClusterIP' | 'NodePort' | 'LoadBalancer' | 'ExternalName';
+    selector?: Record<string, string>;
+    ports?: ServicePort[];
+    clusterIP?: string;
+  };
+}
+
+// io.k8s.api.networking.v1.IngressBackend
+export interface IngressBackend {
+  service?: { name: string; port?: { name?: string; number?: number } };
+}
+
+// io.k8s.api.networking.v1.Ingress
+export interface Ingress {
+  apiVersion: 'networking.k8s.io/v1';
+  kind: 'Ingress';
+  metadata: ObjectMeta;
+  spec: {
+    ingressClassName?: string;
+    defaultBackend?: IngressBackend;
+    tls?: { hosts?: string[]; secretName?: string }[];
+    rules?: {
+      host?: string;
+      http?: {
+        paths: { path?: string; pathType: 'Exact' | 'Prefix' | 'ImplementationSpecific'; backend: IngressBackend }[];
+      };
+    }[];
+  };
+}
+
+// io.k8s.api.core.v1.ConfigMap
+export interface ConfigMap {
+  apiVersion: 'v1';
+  kind: 'ConfigMap';
+  metadata: ObjectMeta;
+  data?: Record<string, string>;
+  binaryData?: Record<string, string>;
+}
+
+// io.k8s.api.core.v1.List, which kubectl accepts in place of a multi-document stream.
+export interface List {
+  apiVersion: 'v1';
+  kind: 'List';
+  items: KubernetesObject[];
+}
+
+// Every kind of object that `spogtan/k8s` makes.
+export type KubernetesObject = Deployment | StatefulSet | Service | Ingress | ConfigMap;
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Loads the module at `file` and returns its default export, or the module itself if it has none.
+// Typescript modules are supported without a build step. If no loader for .ts files has been registered
+// (e.g. by ts-node), they are transpiled with the `typescript` package, without type checking.
+export function load_module(file: string): unknown {
+  const resolved = path.resolve(file);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Can't find entry module ${file}`);
+  }
+  if (resolved.endsWith('.ts') && require.extensions['.ts'] === undefined) {
+    register_typescript();
+  }
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const loaded = require(resolved);
+  return loaded !== null && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+}
+
+function register_typescript() {
+  let typescript: typeof import('typescript');
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    typescript = require('typescript');
+  } catch {
+    throw new Error('Loading a Typescript entry module requires the typescript package, or a loader like ts-node.');
+  }
+  // Map stack traces back to the Typescript source, so that call sites in errors and traces point at the right line.
+  // This is only available from Node 16.6.
+  (process as NodeJS.Process & { setSourceMapsEnabled?(enabled: boolean): void }).setSourceMapsEnabled?.(true);
+  require.extensions['.ts'] = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { outputText } = typescript.transpileModule(source, {
+      compilerOptions: {
+        module: typescript.ModuleKind.CommonJS,
+        target: typescript.ScriptTarget.ES2020,
+        esModuleInterop: true,
+        inlineSourceMap: true,
+      },
+      fileName: filename,
+    });
+    (module as NodeJS.Module & { _compile(code: string, filename: string): void })._compile(outputText, filename);
+  };
+}
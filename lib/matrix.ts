@@ -0,0 +1,46 @@
+// A set of values for each of several parameters, e.g. { env: ['dev', 'prod'], region: ['us', 'eu'] }
+export type Axes<Parameters> = { [Param in keyof Parameters]?: readonly Parameters[Param][] };
+
+// One value for each parameter of some Axes, e.g. { env: 'dev', region: 'eu' }
+export type Combination<A> = { [Param in keyof A]-?: NonNullable<A[Param]> extends readonly (infer V)[] ? V : never };
+
+export interface MatrixOptions<C, Frame, Key extends string> {
+  // Combinations to add to those of the axes.
+  include?: C[];
+  // Leaves out every combination which matches one of these, e.g. { env: 'dev', region: 'eu' } or { env: 'dev' }
+  exclude?: Partial<C>[];
+  // An extra Frame for a combination, e.g. ({ env }) => (env === 'prod' ? { replicas: 3 } : {})
+  frame?(combination: C): Frame;
+  // Returns an object keyed by this rather than an array, e.g. ({ env, region }) => `${env}-${region}`
+  key?(combination: C): Key;
+  // A parameter to set to each combination's ID, which is its key or otherwise its values joined by '-'. It's one of
+  // the parameters which `Frame` can set.
+  id?: keyof Frame & string;
+}
+
+// Returns every combination of the values of `axes`, outermost axis first, with the options' includes and excludes.
+export function combinations<C extends Record<string, unknown>>(
+  axes: Record<string, readonly unknown[] | undefined>,
+  options: { include?: C[]; exclude?: Partial<C>[] },
+): C[] {
+  let all: Record<string, unknown>[] = [{}];
+  for (const [parameter, values] of Object.entries(axes)) {
+    if (values === undefined) continue;
+    all = all.flatMap((combination) => values.map((value) => ({ ...combination, [parameter]: value })));
+  }
+  for (const included of options.include ?? []) {
+    if (!all.some((combination) => matches(combination, included))) all.push(included);
+  }
+  return all.filter(
+    (combination) => !(options.exclude ?? []).some((excluded) => matches(combination, excluded)),
+  ) as C[];
+}
+
+// The ID of a combination, when it isn't given a key.
+export function combination_id(combination: Record<string, unknown>): string {
+  return Object.values(combination).map(String).join('-');
+}
+
+function matches(combination: Record<string, unknown>, pattern: Record<string, unknown>): boolean {
+  return Object.entries(pattern).every(([parameter, value]) => combination[parameter] === value);
+}
@@ -0,0 +1,156 @@
+import { MergeError } from './errors';
+import { current_path } from './context';
+import { Path } from './path';
+
+// How `deepMerge` combines a value with the one it's merged onto.
+//  - replace: the later value is used as it is.
+//  - append / prepend: arrays or strings are concatenated, with the later value after / before the earlier one.
+//  - recursive: objects are merged key by key, deep merging the values of keys that both have.
+//  - union_by_key: arrays of objects are merged item by item, deep merging items with the same value for `key`, e.g.
+//    containers by `name`. Other items are appended.
+export type MergeStrategy = 'replace' | 'append' | 'prepend' | 'recursive' | { union_by_key: string };
+
+export interface DeepMergeOptions {
+  // Strategies for the values at given paths within the merged value, e.g. `spec.containers` or
+  // `spec.containers[].env`, or '' for the merged value itself. `[]` matches any array index and `*` matches any key.
+  // Objects are merged recursively and everything else is replaced, unless a strategy says otherwise.
+  strategies?: Record<string, MergeStrategy>;
+}
+
+// Removes an inherited key when merged onto an object. It's typed as never so that it can stand in for any value.
+export const tombstone: never = Symbol('merge.delete') as never;
+
+// Removes the item whose key is `key` from an array merged with `union_by_key`, e.g. merge.delete_item('sidecar').
+// It's a class instance, rather than a plain object, so that evaluating it leaves it as it is.
+export class DeletedItem {
+  constructor(readonly key: unknown) {}
+}
+
+export function delete_item(key: string | number): never {
+  return new DeletedItem(key) as never;
+}
+
+type Pattern = (string | number | typeof any_key | typeof any_index)[];
+const any_key = Symbol('*');
+const any_index = Symbol('[]');
+
+export interface CompiledStrategies {
+  patterns: [Pattern, MergeStrategy][];
+}
+
+export function compile_strategies(options: DeepMergeOptions): CompiledStrategies {
+  return {
+    patterns: Object.entries(options.strategies ?? {}).map(([pattern, strategy]) => [parse_pattern(pattern), strategy]),
+  };
+}
+
+// Deep merges `patch` onto `base`, where both are evaluated and `path` is where they are within the merged value.
+// Returns the tombstone if the value should be removed.
+export function deep_merge(base: unknown, patch: unknown, strategies: CompiledStrategies, path: Path): unknown {
+  if (patch === tombstone || base === undefined) return without_tombstones(patch);
+  const strategy =
+    strategy_at(strategies, path) ?? (is_plain_object(base) && is_plain_object(patch) ? 'recursive' : 'replace');
+  if (strategy === 'replace') {
+    return without_tombstones(patch);
+  } else if (strategy === 'append' || strategy === 'prepend') {
+    const [first, second] = strategy === 'append' ? [base, patch] : [patch, base];
+    if (first instanceof Array && second instanceof Array) return without_tombstones([...first, ...second]);
+    if (typeof first === 'string' && typeof second === 'string') return first + second;
+    throw strategy_error(strategy, base, patch, path);
+  } else if (strategy === 'recursive') {
+    if (!is_plain_object(base) || !is_plain_object(patch)) throw strategy_error(strategy, base, patch, path);
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(patch)) {
+      const merged_value = deep_merge(merged[key], value, strategies, [...path, key]);
+      if (merged_value === tombstone) delete merged[key];
+      else merged[key] = merged_value;
+    }
+    return merged;
+  } else {
+    const key = strategy.union_by_key;
+    if (!(base instanceof Array) || !(patch instanceof Array))
+      throw strategy_error(`union by ${key}`, base, patch, path);
+    const merged = [...base];
+    for (const item of patch) {
+      const item_key = item instanceof DeletedItem ? item.key : is_plain_object(item) ? item[key] : undefined;
+      const index =
+        item_key !== undefined ? merged.findIndex((other) => is_plain_object(other) && other[key] === item_key) : -1;
+      // Matched items which are deleted are replaced with a tombstone, which is filtered out below
+      if (item instanceof DeletedItem) {
+        if (index !== -1) merged[index] = tombstone;
+      } else if (index === -1) {
+        merged.push(without_tombstones(item));
+      } else {
+        merged[index] = deep_merge(merged[index], item, strategies, [...path, index]);
+      }
+    }
+    return merged.filter((item) => item !== tombstone);
+  }
+}
+
+// Removes any tombstones within a value which isn't being merged onto anything, since there's nothing to delete.
+export function without_tombstones(value: unknown): unknown {
+  if (value === tombstone) {
+    return tombstone;
+  } else if (value instanceof Array) {
+    return value.filter((item) => item !== tombstone && !(item instanceof DeletedItem)).map(without_tombstones);
+  } else if (is_plain_object(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== tombstone)
+        .map(([key, item]) => [key, without_tombstones(item)]),
+    );
+  }
+  return value;
+}
+
+function strategy_at(strategies: CompiledStrategies, path: Path): MergeStrategy | undefined {
+  return strategies.patterns.find(([pattern]) => matches(pattern, path))?.[1];
+}
+
+function matches(pattern: Pattern, path: Path): boolean {
+  return (
+    pattern.length === path.length &&
+    pattern.every((segment, index) =>
+      segment === any_key
+        ? typeof path[index] === 'string'
+        : segment === any_index
+        ? typeof path[index] === 'number'
+        : segment === path[index],
+    )
+  );
+}
+
+// Parses a path as written by format_path, where `*` can stand for any key and `[]` for any index.
+function parse_pattern(string: string): Pattern {
+  const pattern: Pattern = [];
+  const segment = /(?:^|\.)([A-Za-z_$][\w$]*|\*)|\[(\d*|\*)\]|\[("(?:[^"\\]|\\.)*")\]/y;
+  let match;
+  while (segment.lastIndex < string.length && (match = segment.exec(string)) !== null) {
+    if (match[1] !== undefined) pattern.push(match[1] === '*' ? any_key : match[1]);
+    else if (match[2] !== undefined) pattern.push(match[2] === '' || match[2] === '*' ? any_index : Number(match[2]));
+    else pattern.push(JSON.parse(match[3]));
+  }
+  if (segment.lastIndex !== string.length) throw new Error(`Can't parse merge strategy path ${string}`);
+  return pattern;
+}
+
+function strategy_error(strategy: string, base: unknown, patch: unknown, path: Path): MergeError {
+  return new MergeError(`Can't ${strategy} ${type_name(patch)} onto ${type_name(base)}`, [...current_path(), ...path]);
+}
+
+// Only plain objects are merged key by key, and gone through by `evaluate`. Others, such as secrets, dates and class
+// instances, are treated as single values. Object.prototype isn't compared against directly, since objects from
+// another realm (e.g. a vm context) have a different one.
+export function is_plain_object(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || Object.getPrototypeOf(prototype) === null;
+}
+
+// Objects without a prototype, which some parsers make, are named Object.
+export function type_name(value: unknown): string {
+  return value === null || value === undefined
+    ? String(value)
+    : Object.getPrototypeOf(value)?.constructor?.name ?? 'Object';
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OverrideError } from './errors';
+import { fromYAML } from './parse';
+import { format_path } from './path';
+import { JSONSchema, ObjectSchema, Schema } from './schema';
+import { Secret } from './secret';
+import { Frame, merge } from './spogtan';
+
+// Where to load parameter overrides from. Later sources take precedence, in the order listed here.
+export interface OverrideSources {
+  // JSON or YAML files which hold an object of parameter values.
+  files?: string[];
+  // Environment variables, where e.g. SPOGTAN_IMAGE_TAG sets image_tag (or imageTag). Others are ignored.
+  env?: Record<string, string | undefined>;
+  // `parameter=path` pairs, where the parameter is set to the content of the file, as given to --set-file.
+  set_file?: string[];
+  // `parameter=value` pairs, as given to --set.
+  set?: string[];
+  // `parameter=value` pairs which are merged onto the parameter's value, as given to --set-merge.
+  set_merge?: string[];
+}
+
+const env_prefix = 'SPOGTAN_';
+
+// Where the overrides in a Frame from `load_overrides` came from, e.g. `--set replicas=3`, and the ones which were
+// replaced by a later source for the same parameter, so that they can be reported as unused.
+export interface OverrideOrigins {
+  set: Map<string, string>;
+  shadowed: { parameter: string; origin: string; shadowed_by: string }[];
+}
+
+const origins_of = new WeakMap<Record<string, unknown>, OverrideOrigins>();
+
+export function override_origins(frame: Record<string, unknown>): OverrideOrigins | undefined {
+  return origins_of.get(frame);
+}
+
+// Sources which have been applied by `with_overrides`, so the CLI can tell whether its flags were used.
+const applied_sources = new WeakSet<OverrideSources>();
+
+export function mark_applied(sources: OverrideSources): void {
+  applied_sources.add(sources);
+}
+
+// Throws if overrides given to `evaluate` were never applied, since that means they were silently ignored.
+export function check_applied(sources: OverrideSources): void {
+  if (!applied_sources.has(sources)) {
+    throw new OverrideError(
+      'Overrides were given, but nothing applied them. Wrap the exported config with $.with_overrides() to use them.',
+      undefined,
+    );
+  }
+}
+
+// Builds a Frame of overrides for the parameters in `schema`. Values given as strings are coerced to the type that
+// the schema declares, and every value is checked against it. Unknown parameters are rejected.
+export function load_overrides<Parameters>(
+  schema: ObjectSchema<Parameters>,
+  sources: OverrideSources,
+): Frame<Parameters> {
+  const overrides = new Map<string, { value?: unknown; merges: unknown[] }>();
+  const origins: OverrideOrigins = { set: new Map(), shadowed: [] };
+  const override = (parameter: string) => {
+    if (!overrides.has(parameter)) overrides.set(parameter, { merges: [] });
+    return overrides.get(parameter) as { value?: unknown; merges: unknown[] };
+  };
+  const set = (parameter: string, value: unknown, origin: string) => {
+    const secret = is_secret(schema, parameter);
+    check(schema, parameter, secret ? new Secret(value) : value, origin);
+    const shadowed = origins.set.get(parameter);
+    if (shadowed !== undefined) origins.shadowed.push({ parameter, origin: shadowed, shadowed_by: origin });
+    origins.set.set(parameter, origin);
+    override(parameter).value = secret ? new Secret(value) : value;
+  };
+
+  for (const file of sources.files ?? []) {
+    const values = read_override_file(file);
+    for (const [parameter, value] of Object.entries(values)) {
+      set(known_parameter(schema, parameter, file), value, file);
+    }
+  }
+
+  const env_names = new Map(Object.keys(schema.properties).map((parameter) => [env_name(parameter), parameter]));
+  for (const [name, text] of Object.entries(sources.env ?? {})) {
+    if (!name.startsWith(env_prefix) || text === undefined) continue;
+    const parameter = env_names.get(name);
+    if (parameter === undefined) {
+      throw new OverrideError(`Unknown parameter ${name}${suggestion(name, [...env_names.keys()])}`, name);
+    }
+    set(parameter, coerce(schema.properties[parameter].json_schema(), text), name);
+  }
+
+  for (const argument of sources.set_file ?? []) {
+    const origin = `--set-file ${argument}`;
+    const [parameter, file] = split_assignment(schema, argument, origin);
+    let content;
+    try {
+      content = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new OverrideError(`Can't read ${file} from ${origin}: ${(error as Error).message}`, parameter);
+    }
+    set(parameter, coerce(schema.properties[parameter].json_schema(), content), origin);
+  }
+
+  for (const argument of sources.set ?? []) {
+    const [parameter, text] = split_assignment(schema, argument, `--set ${argument}`);
+    const origin = is_secret(schema, parameter) ? `--set ${parameter}=<redacted>` : `--set ${argument}`;
+    set(parameter, coerce(schema.properties[parameter].json_schema(), text), origin);
+  }
+
+  for (const argument of sources.set_merge ?? []) {
+    const [parameter, text] = split_assignment(schema, argument, `--set-merge ${argument}`);
+    const secret = is_secret(schema, parameter);
+    const origin = secret ? `--set-merge ${parameter}=<redacted>` : `--set-merge ${argument}`;
+    const value = coerce(schema.properties[parameter].json_schema(), text);
+    // What's merged is only part of the parameter's value, so it needn't have the properties an object requires
+    check(schema, parameter, secret ? new Secret(value) : value, origin, true);
+    // Merges are reported as coming from the value they're merged onto, if there is one
+    if (!origins.set.has(parameter)) origins.set.set(parameter, origin);
+    override(parameter).merges.push(secret ? new Secret(value) : value);
+  }
+
+  const frame = Object.fromEntries(
+    [...overrides].map(([parameter, { value, merges }]) => {
+      if (merges.length === 0) return [parameter, value];
+      // Without a value of its own, the merge applies to the value the parameter would otherwise have
+      const merged = merge(...(merges as string[]));
+      return [parameter, value === undefined ? merged : merged(value as string)];
+    }),
+  );
+  origins_of.set(frame, origins);
+  return frame as Frame<Parameters>;
+}
+
+// The environment variable which sets `parameter`, e.g. SPOGTAN_IMAGE_TAG for image_tag or imageTag.
+export function env_name(parameter: string): string {
+  return (
+    env_prefix +
+    parameter
+      .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+      .replace(/[^A-Za-z\d]+/g, '_')
+      .toUpperCase()
+  );
+}
+
+function read_override_file(file: string): Record<string, unknown> {
+  let values;
+  try {
+    const content = fs.readFileSync(file, 'utf8');
+    values = path.extname(file) === '.json' ? JSON.parse(content) : fromYAML(content);
+  } catch (error) {
+    throw new OverrideError(`Can't load override file ${file}: ${(error as Error).message}`, undefined);
+  }
+  if (typeof values !== 'object' || values === null || values instanceof Array) {
+    throw new OverrideError(`Override file ${file} must hold an object of parameter values`, undefined);
+  }
+  return values as Record<string, unknown>;
+}
+
+// Splits `parameter=value`, checking that the parameter is known.
+function split_assignment(schema: ObjectSchema<unknown>, argument: string, origin: string): [string, string] {
+  const index = argument.indexOf('=');
+  if (index === -1) throw new OverrideError(`Expected parameter=value in ${origin}`, undefined);
+  return [known_parameter(schema, argument.slice(0, index), origin), argument.slice(index + 1)];
+}
+
+function known_parameter(schema: ObjectSchema<unknown>, parameter: string, origin: string): string {
+  if (!Object.prototype.hasOwnProperty.call(schema.properties, parameter)) {
+    const known = Object.keys(schema.properties);
+    throw new OverrideError(`Unknown parameter ${parameter} in ${origin}${suggestion(parameter, known)}`, parameter);
+  }
+  return parameter;
+}
+
+// Parameters with a schema.secret() schema, whose overrides are made secret.
+function is_secret(schema: ObjectSchema<unknown>, parameter: string): boolean {
+  return schema.properties[parameter].json_schema().writeOnly === true;
+}
+
+function check(schema: ObjectSchema<unknown>, parameter: string, value: unknown, origin: string, partial = false) {
+  const issues = (schema.properties[parameter] as Schema<unknown>)
+    .check(value)
+    .filter((issue) => !(partial && issue.path.length === 1 && issue.message === 'is required'));
+  if (issues.length === 0) return;
+  const lines = issues.map((issue) => `\n  ${format_path([parameter, ...issue.path])}: ${issue.message}`);
+  throw new OverrideError(`Invalid value for parameter ${parameter} in ${origin}${lines.join('')}`, parameter);
+}
+
+// Converts a string from the command line or environment to the type described by `json_schema`. Values which can't
+// be converted are returned as they are, so that checking them against the schema reports the problem.
+function coerce(json_schema: JSONSchema, text: string): unknown {
+  if (json_schema.enum instanceof Array) {
+    return json_schema.enum.find((value) => String(value) === text) ?? text;
+  }
+  switch (json_schema.type) {
+    case 'number':
+      return text.trim() !== '' && !Number.isNaN(Number(text)) ? Number(text) : text;
+    case 'boolean':
+      return text === 'true' ? true : text === 'false' ? false : text;
+    case 'array':
+      // Either a list of comma separated items, or a JSON or YAML flow sequence
+      if (text.trim().startsWith('[')) return parse_or_keep(text);
+      return text === '' ? [] : text.split(',').map((item) => coerce(json_schema.items as JSONSchema, item.trim()));
+    case 'object':
+      return parse_or_keep(text);
+    default:
+      return text;
+  }
+}
+
+function parse_or_keep(text: string): unknown {
+  try {
+    return fromYAML(text);
+  } catch {
+    return text;
+  }
+}
+
+// Suggests the closest of `known` to `name`, if there's one close enough to be a likely typo.
+function suggestion(name: string, known: string[]): string {
+  const match = closest(name, known);
+  return match !== undefined ? `, did you mean ${match}?` : '';
+}
+
+// Returns the closest of `known` to `name`, if there's one close enough to be a likely typo.
+export function closest(name: string, known: string[]): string | undefined {
+  let closest: string | undefined;
+  let closest_distance = Infinity;
+  for (const candidate of known) {
+    const distance = edit_distance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < closest_distance) [closest, closest_distance] = [candidate, distance];
+  }
+  return closest !== undefined && closest_distance <= Math.max(2, name.length / 3) ? closest : undefined;
+}
+
+// The Levenshtein distance between two strings.
+function edit_distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; ++i) {
+    const current = [i];
+    for (let j = 1; j <= b.length; ++j) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
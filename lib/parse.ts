@@ -0,0 +1,550 @@
+// Parsers for reading existing config files, the counterpart to the serializers in format.ts.
+// Like them, these have no dependencies. The YAML parser handles the block and flow styles that config files use in
+// practice, along with anchors, aliases and << merge keys, and resolves plain scalars with the YAML 1.2 core schema.
+// Tags and complex (?) keys aren't supported and are reported as errors.
+
+export interface ParseOptions {
+  // Parse a stream of documents separated by ---, returning an array with one value per document.
+  multi_document?: boolean;
+}
+
+// Thrown when text can't be parsed. `line` is the 1-based line the problem was found on.
+export class ParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`${message} (at line ${line})`);
+    this.name = 'ParseError';
+  }
+}
+
+// Parses a YAML document, or a stream of YAML documents if `multi_document` is set.
+export function fromYAML(text: string, options: ParseOptions = {}): unknown {
+  const documents = split_documents(text);
+  if (!options.multi_document && documents.length > 1) {
+    const line = documents[1].find((line) => !is_blank(line)) ?? documents[1][0];
+    throw new ParseError('Found several documents, use multi_document to parse a stream', line?.number ?? 1);
+  }
+  const values = documents.map((lines) => new YAMLParser(lines).document());
+  return options.multi_document ? values : values[0] ?? null;
+}
+
+interface Line {
+  // The 1-based line number within the whole stream.
+  number: number;
+  indent: number;
+  // The line without its indentation.
+  text: string;
+}
+
+function split_documents(text: string): Line[][] {
+  const documents: Line[][] = [];
+  let current: Line[] = [];
+  let started = false;
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (/^---(\s|$)/.test(raw)) {
+      if (started || current.some((line) => !is_blank(line))) documents.push(current);
+      started = true;
+      const rest = raw.slice(3).trim();
+      current = rest === '' ? [] : [{ number: index + 1, indent: 4, text: rest }];
+    } else if (/^\.\.\.(\s|$)/.test(raw)) {
+      documents.push(current);
+      started = false;
+      current = [];
+    } else if (!/^%/.test(raw) || started) {
+      const text = raw.trimStart();
+      current.push({ number: index + 1, indent: raw.length - text.length, text });
+    }
+  });
+  if (started || current.some((line) => !is_blank(line))) documents.push(current);
+  return documents;
+}
+
+// Blank lines and lines holding only a comment are skipped between nodes.
+function is_blank(line: Line): boolean {
+  return line.text === '' || line.text.startsWith('#');
+}
+
+class YAMLParser {
+  private position = 0;
+  private readonly anchors = new Map<string, unknown>();
+
+  constructor(private readonly lines: Line[]) {}
+
+  document(): unknown {
+    const line = this.next_line();
+    if (line === undefined) return null;
+    const value = this.block(line.indent);
+    const extra = this.next_line();
+    if (extra !== undefined) throw new ParseError('Unexpected content after the end of the document', extra.number);
+    return value;
+  }
+
+  // Skips blank lines, returning the next line with content.
+  private next_line(): Line | undefined {
+    while (this.position < this.lines.length && is_blank(this.lines[this.position])) this.position++;
+    return this.lines[this.position];
+  }
+
+  // Parses the node starting at the current line, which is indented by `indent`.
+  private block(indent: number): unknown {
+    const line = this.lines[this.position];
+    if (is_sequence_entry(line.text)) return this.sequence(indent);
+    if (split_key(line.text, line.number) !== undefined) return this.mapping(indent);
+    this.position++;
+    return this.value(line.text, indent - 1, line.number);
+  }
+
+  private sequence(indent: number): unknown[] {
+    const items = [];
+    for (let line = this.next_line(); line !== undefined; line = this.next_line()) {
+      if (line.indent !== indent || !is_sequence_entry(line.text)) break;
+      const rest = line.text.slice(1);
+      const content = rest.trimStart();
+      if (content !== '' && !content.startsWith('#') && this.starts_block(content, line.number)) {
+        // A compact collection, e.g. `- key: value`, is parsed as if it started on its own line
+        this.lines[this.position] = {
+          number: line.number,
+          indent: indent + 1 + rest.length - content.length,
+          text: content,
+        };
+        items.push(this.block(indent + 1 + rest.length - content.length));
+      } else {
+        this.position++;
+        items.push(this.value(rest, indent, line.number));
+      }
+    }
+    this.check_dedent(indent);
+    return items;
+  }
+
+  private starts_block(content: string, number: number): boolean {
+    return is_sequence_entry(content) || split_key(content, number) !== undefined;
+  }
+
+  private mapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    const merged: Record<string, unknown>[] = [];
+    for (let line = this.next_line(); line !== undefined; line = this.next_line()) {
+      if (line.indent !== indent || is_sequence_entry(line.text)) break;
+      const split = split_key(line.text, line.number);
+      if (split === undefined) throw new ParseError(`Expected a key, found ${line.text}`, line.number);
+      const [key, rest] = split;
+      this.position++;
+      const value = this.value(rest, indent, line.number, true);
+      if (key === '<<') {
+        merged.push(...this.merge_sources(value, line.number));
+      } else if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw new ParseError(`Duplicate key ${key}`, line.number);
+      } else {
+        mapping[key] = value;
+      }
+    }
+    this.check_dedent(indent);
+    // Keys set in the mapping itself take precedence over merged ones, and earlier merged mappings over later ones
+    return merged.length > 0 ? Object.assign({}, ...merged.reverse(), mapping) : mapping;
+  }
+
+  private merge_sources(value: unknown, number: number): Record<string, unknown>[] {
+    const sources = value instanceof Array ? value : [value];
+    for (const source of sources) {
+      if (typeof source !== 'object' || source === null || source instanceof Array) {
+        throw new ParseError('Only mappings can be merged with <<', number);
+      }
+    }
+    return sources as Record<string, unknown>[];
+  }
+
+  // A line left over at a deeper indentation than the collection it follows is a mistake.
+  private check_dedent(indent: number) {
+    const line = this.next_line();
+    if (line !== undefined && line.indent > indent) throw new ParseError('Unexpected indentation', line.number);
+  }
+
+  // Parses the value which follows a `key:` or `-` on the line numbered `number`, where `text` is the rest of the
+  // line and `indent` is the indentation of the key or dash. The value can continue onto more indented lines.
+  // Mapping values can also be a sequence at the same indentation as their key.
+  private value(text: string, indent: number, number: number, in_mapping = false): unknown {
+    let content = strip_comment(text).trim();
+    let anchor: string | undefined;
+    if (content.startsWith('&')) {
+      [anchor, content] = split_once_whitespace(content.slice(1));
+    }
+    if (content.startsWith('!')) throw new ParseError(`Tags like ${content.split(/\s/)[0]} aren't supported`, number);
+
+    let value: unknown;
+    if (content === '') {
+      const next = this.next_line();
+      if (next !== undefined && next.indent > indent) {
+        value = this.block(next.indent);
+      } else if (next !== undefined && in_mapping && next.indent === indent && is_sequence_entry(next.text)) {
+        value = this.sequence(indent);
+      } else {
+        value = null;
+      }
+    } else if (content.startsWith('*')) {
+      const name = content.slice(1);
+      if (!this.anchors.has(name)) throw new ParseError(`Unknown alias *${name}`, number);
+      value = this.anchors.get(name);
+    } else if (content.startsWith('|') || content.startsWith('>')) {
+      value = this.block_scalar(content, indent, number);
+    } else if (content.startsWith('[') || content.startsWith('{')) {
+      value = this.flow(text.slice(text.indexOf(content[0])), number);
+    } else if (content.startsWith('"') || content.startsWith("'")) {
+      value = this.quoted(text.slice(text.indexOf(content[0])), indent, number);
+    } else {
+      value = this.plain(content, indent);
+    }
+    if (anchor !== undefined) this.anchors.set(anchor, value);
+    return value;
+  }
+
+  // A plain scalar, which can continue onto more indented lines. Its line breaks are folded into spaces.
+  private plain(first: string, indent: number): unknown {
+    const parts = [first];
+    for (let line = this.lines[this.position]; line !== undefined; line = this.lines[this.position]) {
+      if (!is_blank(line) && line.indent <= indent) break;
+      if (is_blank(line) && line.text.startsWith('#')) break;
+      if (split_key(line.text, line.number) !== undefined) throw new ParseError('Unexpected indentation', line.number);
+      parts.push(is_blank(line) ? '' : strip_comment(line.text).trim());
+      this.position++;
+    }
+    while (parts[parts.length - 1] === '') parts.pop();
+    return parts.length === 1 ? resolve_plain(first) : fold_lines(parts);
+  }
+
+  private quoted(text: string, indent: number, number: number): string {
+    const quote = text[0];
+    let source = text;
+    let end = find_closing_quote(source, quote);
+    while (end === -1) {
+      const line = this.lines[this.position];
+      if (line === undefined) throw new ParseError('Unterminated quoted string', number);
+      source += '\n' + line.text;
+      this.position++;
+      end = find_closing_quote(source, quote);
+    }
+    const rest = strip_comment(source.slice(end + 1)).trim();
+    if (rest !== '') throw new ParseError(`Unexpected ${rest} after quoted string`, number);
+    return parse_quoted(source.slice(0, end + 1), number);
+  }
+
+  private flow(text: string, number: number): unknown {
+    let source = strip_comment(text);
+    while (!flow_is_closed(source)) {
+      const line = this.lines[this.position];
+      if (line === undefined) throw new ParseError(`Unterminated ${text[0]}`, number);
+      source += ' ' + strip_comment(line.text);
+      this.position++;
+    }
+    return new FlowParser(source.trim(), number, this.anchors).all();
+  }
+
+  private block_scalar(header: string, indent: number, number: number): string {
+    const match = /^([|>])([-+]?)([1-9]?)([-+]?)$/.exec(header);
+    if (match === null) throw new ParseError(`Invalid block scalar header ${header}`, number);
+    const [, style, chomp_before, indicator, chomp_after] = match;
+    const chomping = chomp_before || chomp_after;
+
+    // The content's indentation is given by the indicator, or else by its first non-empty line
+    const parent_indent = Math.max(indent, 0);
+    let content_indent = indicator !== '' ? parent_indent + Number(indicator) : undefined;
+    const lines: string[] = [];
+    for (let line = this.lines[this.position]; line !== undefined; line = this.lines[this.position]) {
+      if (line.text === '') {
+        lines.push('');
+      } else {
+        content_indent ??= line.indent;
+        if (line.indent < content_indent || line.indent <= indent) break;
+        lines.push(' '.repeat(line.indent - content_indent) + line.text);
+      }
+      this.position++;
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === '') {
+      lines.pop();
+      trailing++;
+    }
+    const body = style === '|' ? lines.join('\n') : fold_block(lines);
+    if (lines.length === 0) return chomping === '+' ? '\n'.repeat(trailing) : '';
+    if (chomping === '-') return body;
+    if (chomping === '+') return body + '\n' + '\n'.repeat(trailing);
+    return body + '\n';
+  }
+}
+
+// Parses a flow collection, e.g. [a, {b: 1}], which has been gathered onto one line.
+class FlowParser {
+  private position = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly number: number,
+    private readonly anchors: Map<string, unknown>,
+  ) {}
+
+  all(): unknown {
+    const value = this.node();
+    this.skip_space();
+    if (this.position < this.text.length) this.fail(`Unexpected ${this.text.slice(this.position)}`);
+    return value;
+  }
+
+  private node(): unknown {
+    this.skip_space();
+    const character = this.text[this.position];
+    if (character === '[') return this.sequence();
+    if (character === '{') return this.mapping();
+    if (character === '"' || character === "'") {
+      const end = find_closing_quote(this.text.slice(this.position), character);
+      if (end === -1) this.fail('Unterminated quoted string');
+      const quoted = this.text.slice(this.position, this.position + end + 1);
+      this.position += end + 1;
+      return parse_quoted(quoted, this.number);
+    }
+    if (character === '*') {
+      const name = /^\*([^\s,[\]{}]+)/.exec(this.text.slice(this.position))?.[1] ?? '';
+      this.position += name.length + 1;
+      if (!this.anchors.has(name)) this.fail(`Unknown alias *${name}`);
+      return this.anchors.get(name);
+    }
+    if (character === '!' || character === '&') this.fail("Tags and anchors inside flow collections aren't supported");
+    const plain = /^[^,[\]{}]*?(?=\s*(?:[,\]}]|:\s|:$|$))/.exec(this.text.slice(this.position))?.[0] ?? '';
+    this.position += plain.length;
+    return resolve_plain(plain.trim());
+  }
+
+  private sequence(): unknown[] {
+    const items = [];
+    this.position++;
+    for (this.skip_space(); this.text[this.position] !== ']'; this.skip_space()) {
+      items.push(this.node());
+      if (!this.separator(']')) break;
+    }
+    this.expect(']');
+    return items;
+  }
+
+  private mapping(): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    this.position++;
+    for (this.skip_space(); this.text[this.position] !== '}'; this.skip_space()) {
+      const key = this.node();
+      this.skip_space();
+      let value = null;
+      if (this.text[this.position] === ':') {
+        this.position++;
+        this.skip_space();
+        if (this.text[this.position] !== ',' && this.text[this.position] !== '}') value = this.node();
+      }
+      mapping[String(key)] = value;
+      if (!this.separator('}')) break;
+    }
+    this.expect('}');
+    return mapping;
+  }
+
+  // Consumes a comma between items, returning false if the collection ends instead.
+  private separator(end: string): boolean {
+    this.skip_space();
+    if (this.text[this.position] === ',') {
+      this.position++;
+      return true;
+    }
+    if (this.text[this.position] !== end) this.fail(`Expected , or ${end}`);
+    return false;
+  }
+
+  private expect(character: string) {
+    if (this.text[this.position] !== character) this.fail(`Expected ${character}`);
+    this.position++;
+  }
+
+  private skip_space() {
+    while (/\s/.test(this.text[this.position] ?? '')) this.position++;
+  }
+
+  private fail(message: string): never {
+    throw new ParseError(message, this.number);
+  }
+}
+
+function is_sequence_entry(text: string): boolean {
+  return text === '-' || /^-\s/.test(text);
+}
+
+// Splits `key: rest` into its key and the rest of the line, or returns undefined if the text isn't a mapping entry.
+function split_key(text: string, number: number): [string, string] | undefined {
+  if (text.startsWith('? ')) throw new ParseError("Complex keys (? key) aren't supported", number);
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = find_closing_quote(text, text[0]);
+    if (end === -1 || !/^\s*:(\s|$)/.test(text.slice(end + 1))) return undefined;
+    const colon = text.indexOf(':', end + 1);
+    return [parse_quoted(text.slice(0, end + 1), number), text.slice(colon + 1)];
+  }
+  if (/^[[{#&*!|>%@`]/.test(text)) return undefined;
+  const match = /^(.*?)\s*:(?:\s|$)/.exec(text);
+  if (match === null || /\s#/.test(match[1])) return undefined;
+  return [match[1], text.slice(match[0].length - (/\s$/.test(match[0]) ? 1 : 0))];
+}
+
+function split_once_whitespace(text: string): [string, string] {
+  const match = /^(\S*)\s*(.*)$/.exec(text) as RegExpExecArray;
+  return [match[1], match[2]];
+}
+
+// Removes a trailing # comment, which must be preceded by whitespace and not be within quotes.
+function strip_comment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; ++i) {
+    const character = text[i];
+    if (quote !== undefined) {
+      if (character === '\\' && quote === '"') i++;
+      else if (character === quote) quote = undefined;
+    } else if ((character === '"' || character === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      quote = character;
+    } else if (character === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+// Returns the index of the quote which closes the quoted string at the start of `text`, or -1 if it isn't closed.
+function find_closing_quote(text: string, quote: string): number {
+  for (let i = 1; i < text.length; ++i) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") i++;
+      else return i;
+    }
+  }
+  return -1;
+}
+
+function flow_is_closed(text: string): boolean {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; ++i) {
+    const character = text[i];
+    if (quote !== undefined) {
+      if (character === '\\' && quote === '"') i++;
+      else if (character === quote) quote = undefined;
+    } else if (character === '"' || character === "'") {
+      quote = character;
+    } else if (character === '[' || character === '{') {
+      depth++;
+    } else if (character === ']' || character === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+const double_quoted_escapes: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\x85',
+  _: '\xa0',
+  L: '\u2028',
+  P: '\u2029',
+};
+
+// Parses a complete single or double quoted scalar, including its quotes. Line breaks within it are folded.
+function parse_quoted(quoted: string, number: number): string {
+  // Whitespace around line breaks is folded away along with them, but whitespace within a line is kept
+  const lines = quoted
+    .slice(1, -1)
+    .split('\n')
+    .map((line, index, all) => {
+      if (all.length === 1) return line;
+      return index === 0 ? line.trimEnd() : index === all.length - 1 ? line.trimStart() : line.trim();
+    });
+  if (quoted[0] === "'") return fold_lines(lines).replace(/''/g, "'");
+
+  let folded = '';
+  lines.forEach((line, index) => {
+    if (index === 0) folded = line;
+    // A line break escaped with \ joins the lines without a space
+    else if (/(^|[^\\])(\\\\)*\\$/.test(folded)) folded = folded.slice(0, -1) + line;
+    else if (line === '') folded += '\n';
+    else folded += folded.endsWith('\n') ? line : ' ' + line;
+  });
+  return folded.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|[\s\S])/g, (escape, code: string) => {
+    if (code.length > 1) return String.fromCodePoint(parseInt(code.slice(1), 16));
+    const character = double_quoted_escapes[code];
+    if (character === undefined) throw new ParseError(`Invalid escape sequence ${escape}`, number);
+    return character;
+  });
+}
+
+// Joins lines of a flow scalar: single line breaks become spaces, and each empty line becomes a line break.
+function fold_lines(lines: string[]): string {
+  let folded = '';
+  lines.forEach((line, index) => {
+    if (index === 0) folded = line;
+    else if (line === '') folded += '\n';
+    else folded += folded.endsWith('\n') ? line : ' ' + line;
+  });
+  return folded;
+}
+
+// Folds the lines of a > block scalar. Line breaks between lines of text become spaces, but those next to empty or
+// more indented lines are kept.
+function fold_block(lines: string[]): string {
+  let folded = '';
+  let empty = 0;
+  let more_indented = false;
+  let first = true;
+  for (const line of lines) {
+    if (line === '') {
+      empty++;
+      continue;
+    }
+    if (/^\s/.test(line)) {
+      folded += '\n'.repeat(first ? empty : empty + 1);
+      more_indented = true;
+    } else if (more_indented) {
+      folded += '\n'.repeat(empty + 1);
+      more_indented = false;
+    } else if (empty > 0) {
+      folded += '\n'.repeat(empty);
+    } else if (!first) {
+      folded += ' ';
+    }
+    folded += line;
+    first = false;
+    empty = 0;
+  }
+  return folded;
+}
+
+// Resolves a plain scalar to null, a boolean, a number or a string, following the YAML 1.2 core schema.
+// Integers too large to be represented exactly are returned as bigints.
+function resolve_plain(text: string): unknown {
+  if (/^(?:~|null|Null|NULL|)$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) {
+    const number = Number(text);
+    return Number.isSafeInteger(number) ? number : BigInt(text);
+  }
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  if (/^0x[\da-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
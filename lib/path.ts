@@ -0,0 +1,25 @@
+// A location within an evaluated value, made of object keys and array indices.
+export type Path = (string | number)[];
+
+// Renders a path as it would be written in Javascript, e.g. movies[3].summary
+export function format_path(path: Path): string {
+  return path
+    .map((segment, index) => {
+      if (typeof segment === 'number') return `[${segment}]`;
+      if (/^[A-Za-z_$][\w$]*$/.test(segment)) return index === 0 ? segment : `.${segment}`;
+      return `[${JSON.stringify(segment)}]`;
+    })
+    .join('');
+}
+
+// Parses a path written as format_path writes it, e.g. movies[3].summary or config["key with spaces"]
+export function parse_path(string: string): Path {
+  const path: Path = [];
+  const pattern = /(?:^|\.)([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/y;
+  let match;
+  while (pattern.lastIndex < string.length && (match = pattern.exec(string)) !== null) {
+    path.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : JSON.parse(match[3])));
+  }
+  if (pattern.lastIndex !== string.length) throw new Error(`Can't parse path ${string}`);
+  return path;
+}
@@ -0,0 +1,349 @@
+import { current_path } from './context';
+import { CheckIssue, SpogtanError } from './errors';
+import { Path, format_path } from './path';
+import { CallableSpogtan, Evaluated, Frame, Spogtan, Steps, stepped_late_value } from './spogtan';
+
+// Components for Prometheus rules and scrape configs, and Alertmanager routes, with the offline checks that promtool
+// makes. The types follow the Prometheus and Alertmanager config file formats, so their YAML loads as it is.
+
+export interface AlertingRule {
+  alert: string;
+  expr: string;
+  for?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+}
+
+export interface RecordingRule {
+  record: string;
+  expr: string;
+  labels?: Record<string, string>;
+}
+
+export type Rule = AlertingRule | RecordingRule;
+
+export interface RuleGroup {
+  name: string;
+  interval?: string;
+  rules: Rule[];
+}
+
+// A file listed in `rule_files`.
+export interface RulesFile {
+  groups: RuleGroup[];
+}
+
+export interface ScrapeConfig {
+  job_name: string;
+  scrape_interval?: string;
+  scrape_timeout?: string;
+  metrics_path?: string;
+  scheme?: 'http' | 'https';
+  static_configs?: { targets: string[]; labels?: Record<string, string> }[];
+}
+
+// prometheus.yml
+export interface PrometheusConfig {
+  global?: {
+    scrape_interval?: string;
+    scrape_timeout?: string;
+    evaluation_interval?: string;
+    external_labels?: Record<string, string>;
+  };
+  rule_files?: string[];
+  scrape_configs?: ScrapeConfig[];
+}
+
+export interface Route {
+  receiver?: string;
+  group_by?: string[];
+  matchers?: string[];
+  continue?: boolean;
+  group_wait?: string;
+  group_interval?: string;
+  repeat_interval?: string;
+  routes?: Route[];
+}
+
+export interface Receiver {
+  name: string;
+  webhook_configs?: { url: string; send_resolved?: boolean }[];
+  slack_configs?: { api_url?: string; channel?: string; send_resolved?: boolean }[];
+  email_configs?: { to: string; send_resolved?: boolean }[];
+  pagerduty_configs?: { routing_key?: string; service_key?: string; send_resolved?: boolean }[];
+}
+
+// alertmanager.yml
+export interface AlertmanagerConfig {
+  global?: Record<string, unknown>;
+  route: Route;
+  receivers: Receiver[];
+}
+
+export interface PrometheusParameters {
+  // Alerting and recording rules
+  alert: string;
+  record: string;
+  expr: string;
+  for: string;
+  // Added to the labels of alerts, if it's set.
+  severity: string;
+  // The labels of rules, or of the targets of scrape configs.
+  labels: Record<string, string>;
+  annotations: Record<string, string>;
+  // Rule groups. Their rules can use the parameters set for the group, e.g. a severity shared by every rule in it.
+  group: string;
+  interval: string;
+  rules: Rule[];
+  // Scrape configs
+  job: string;
+  targets: string[];
+  scrape_interval: string;
+  scrape_timeout: string;
+  metrics_path: string;
+  scheme: 'http' | 'https';
+  // Alertmanager routes
+  receiver: string;
+  group_by: string[];
+  matchers: string[];
+  continue: boolean;
+  group_wait: string;
+  group_interval: string;
+  repeat_interval: string;
+}
+
+// Thrown when a rules file or config doesn't pass its checks, with every issue that was found.
+export class PrometheusCheckError extends SpogtanError {
+  constructor(readonly issues: CheckIssue[], path: Path) {
+    super('Prometheus config check failed', path);
+    this.message += issues.map((issue) => `\n  ${format_path(issue.path)}: ${issue.message}`).join('');
+  }
+}
+
+// The instance which the components use. Use $prometheus.extend<MoreParameters>() to add Parameters of your own, e.g.
+// a service that's used in the expressions of alerts.
+export const $prometheus = new Spogtan<PrometheusParameters>() as CallableSpogtan<PrometheusParameters>;
+const $ = $prometheus;
+
+// Looks up `parameter` by yielding it, so that the components below can be given async values by evaluateAsync.
+function* get<Param extends keyof PrometheusParameters>(parameter: Param): Steps<PrometheusParameters[Param]> {
+  return (yield $.get(parameter)) as PrometheusParameters[Param];
+}
+
+function* get_optional<Param extends keyof PrometheusParameters>(
+  parameter: Param,
+): Steps<PrometheusParameters[Param] | undefined> {
+  return (yield $.get(parameter, false)) as PrometheusParameters[Param] | undefined;
+}
+
+export const alerting_rule = $.wrap_with_defaults<AlertingRule>(
+  { labels: {}, annotations: {} },
+  stepped_late_value(function* () {
+    const severity = yield* get_optional('severity');
+    return {
+      alert: yield* get('alert'),
+      expr: yield* get('expr'),
+      for: yield* get_optional('for'),
+      labels: non_empty({ ...(yield* get('labels')), ...(severity !== undefined && { severity }) }),
+      annotations: non_empty(yield* get('annotations')),
+    };
+  }),
+);
+
+export const recording_rule = $.wrap_with_defaults<RecordingRule>(
+  { labels: {} },
+  stepped_late_value(function* () {
+    return { record: yield* get('record'), expr: yield* get('expr'), labels: non_empty(yield* get('labels')) };
+  }),
+);
+
+export const rule_group = $.wrap_with_defaults<RuleGroup>(
+  {},
+  stepped_late_value(function* () {
+    return { name: yield* get('group'), interval: yield* get_optional('interval'), rules: yield* get('rules') };
+  }),
+);
+
+export const scrape_config = $.wrap_with_defaults<ScrapeConfig>(
+  { labels: {} },
+  stepped_late_value(function* () {
+    return {
+      job_name: yield* get('job'),
+      scrape_interval: yield* get_optional('scrape_interval'),
+      scrape_timeout: yield* get_optional('scrape_timeout'),
+      metrics_path: yield* get_optional('metrics_path'),
+      scheme: yield* get_optional('scheme'),
+      static_configs: [{ targets: yield* get('targets'), labels: non_empty(yield* get('labels')) }],
+    };
+  }),
+);
+
+const route_fields = $.wrap_with_defaults<Route>(
+  {},
+  stepped_late_value(function* () {
+    return {
+      receiver: yield* get_optional('receiver'),
+      group_by: yield* get_optional('group_by'),
+      matchers: yield* get_optional('matchers'),
+      continue: yield* get_optional('continue'),
+      group_wait: yield* get_optional('group_wait'),
+      group_interval: yield* get_optional('group_interval'),
+      repeat_interval: yield* get_optional('repeat_interval'),
+    };
+  }),
+);
+
+// An Alertmanager route, with child `routes`. The children are evaluated outside of this route's Frame, since
+// Alertmanager passes what they don't set down to them itself.
+export function route(frame: Frame<PrometheusParameters> = {}, routes: unknown[] = []): () => Route {
+  const fields = route_fields(frame);
+  return stepped_late_value(function* () {
+    const children = (yield routes) as Route[];
+    return { ...((yield fields) as Route), ...(children.length > 0 && { routes: children }) };
+  });
+}
+
+// A rules file made of `groups`, which is checked when it's evaluated.
+export function rules_file<T>(groups: T): () => Evaluated<{ groups: T }> {
+  return stepped_late_value(function* () {
+    return checkRules({ groups: (yield groups) as RuleGroup[] }) as Evaluated<{ groups: T }>;
+  });
+}
+
+// A prometheus.yml, which is checked when it's evaluated.
+export function prometheus_config<T>(config: T): () => Evaluated<T> {
+  return stepped_late_value(function* () {
+    return checkConfig((yield config) as PrometheusConfig) as Evaluated<T>;
+  });
+}
+
+// An alertmanager.yml, which is checked when it's evaluated.
+export function alertmanager_config<T>(config: T): () => Evaluated<T> {
+  return stepped_late_value(function* () {
+    return checkAlertmanagerConfig((yield config) as AlertmanagerConfig) as Evaluated<T>;
+  });
+}
+
+// Checks an evaluated rules file like `promtool check rules`: group names are unique, as are rules with the same name
+// and labels within a group, names and labels are valid and durations parse. Returns the file if it passes.
+export function checkRules(file: RulesFile): RulesFile {
+  const issues: CheckIssue[] = [];
+  issues.push(...duplicates(file.groups, (group) => group.name, ['groups'], 'group'));
+  file.groups.forEach((group, g) => {
+    const path = ['groups', g];
+    issues.push(...check_duration(group.interval, [...path, 'interval']));
+    issues.push(...duplicates(group.rules, rule_identity, [...path, 'rules'], 'rule'));
+    group.rules.forEach((rule, r) => {
+      const rule_path = [...path, 'rules', r];
+      if ('record' in rule) {
+        if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(rule.record)) {
+          issues.push({ path: [...rule_path, 'record'], message: `${rule.record} isn't a valid metric name` });
+        }
+      } else {
+        if (rule.alert === '') issues.push({ path: [...rule_path, 'alert'], message: "alert names can't be empty" });
+        issues.push(...check_duration(rule.for, [...rule_path, 'for']));
+        issues.push(...check_label_names(rule.annotations, [...rule_path, 'annotations']));
+      }
+      if (rule.expr.trim() === '') issues.push({ path: [...rule_path, 'expr'], message: "expr can't be empty" });
+      issues.push(...check_label_names(rule.labels, [...rule_path, 'labels']));
+    });
+  });
+  return passed(file, issues);
+}
+
+// Checks an evaluated prometheus.yml like `promtool check config`, without reading the rule files: job names are
+// unique, and labels and durations are valid. Returns the config if it passes.
+export function checkConfig(config: PrometheusConfig): PrometheusConfig {
+  const issues: CheckIssue[] = [];
+  for (const key of ['scrape_interval', 'scrape_timeout', 'evaluation_interval'] as const) {
+    issues.push(...check_duration(config.global?.[key], ['global', key]));
+  }
+  issues.push(...check_label_names(config.global?.external_labels, ['global', 'external_labels']));
+  const scrape_configs = config.scrape_configs ?? [];
+  issues.push(...duplicates(scrape_configs, (scrape) => scrape.job_name, ['scrape_configs'], 'job'));
+  scrape_configs.forEach((scrape, s) => {
+    const path = ['scrape_configs', s];
+    issues.push(...check_duration(scrape.scrape_interval, [...path, 'scrape_interval']));
+    issues.push(...check_duration(scrape.scrape_timeout, [...path, 'scrape_timeout']));
+    (scrape.static_configs ?? []).forEach((static_config, c) => {
+      issues.push(...check_label_names(static_config.labels, [...path, 'static_configs', c, 'labels']));
+    });
+  });
+  return passed(config, issues);
+}
+
+// Checks an evaluated alertmanager.yml like `amtool check-config`: the top route has a receiver, every route's
+// receiver exists, receiver names are unique, and durations and the label names in group_by are valid. Returns the
+// config if it passes.
+export function checkAlertmanagerConfig(config: AlertmanagerConfig): AlertmanagerConfig {
+  const issues: CheckIssue[] = [];
+  const receivers = new Set(config.receivers.map((receiver) => receiver.name));
+  issues.push(...duplicates(config.receivers, (receiver) => receiver.name, ['receivers'], 'receiver'));
+  if (config.route.receiver === undefined) {
+    issues.push({ path: ['route', 'receiver'], message: 'the top route needs a receiver' });
+  }
+  const check_route = (route: Route, path: Path) => {
+    if (route.receiver !== undefined && !receivers.has(route.receiver)) {
+      issues.push({ path: [...path, 'receiver'], message: `there's no receiver called ${route.receiver}` });
+    }
+    for (const key of ['group_wait', 'group_interval', 'repeat_interval'] as const) {
+      issues.push(...check_duration(route[key], [...path, key]));
+    }
+    (route.group_by ?? []).forEach((label, l) => {
+      if (label !== '...' && !is_label_name(label)) {
+        issues.push({ path: [...path, 'group_by', l], message: `${label} isn't a valid label name` });
+      }
+    });
+    (route.routes ?? []).forEach((child, r) => check_route(child, [...path, 'routes', r]));
+  };
+  check_route(config.route, ['route']);
+  return passed(config, issues);
+}
+
+function passed<T>(value: T, issues: CheckIssue[]): T {
+  if (issues.length > 0) throw new PrometheusCheckError(issues, current_path());
+  return value;
+}
+
+// Rules are told apart by their name and labels, so the same alert can be made for each of several services.
+function rule_identity(rule: Rule): string {
+  const name = 'record' in rule ? rule.record : rule.alert;
+  const labels = Object.entries(rule.labels ?? {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return labels.length === 0 ? name : `${name}{${labels.map(([key, value]) => `${key}="${value}"`).join(', ')}}`;
+}
+
+function duplicates<T>(items: T[], identity: (item: T) => string, path: Path, kind: string): CheckIssue[] {
+  const seen = new Set<string>();
+  const issues: CheckIssue[] = [];
+  items.forEach((item, index) => {
+    const id = identity(item);
+    if (seen.has(id)) issues.push({ path: [...path, index], message: `there's more than one ${kind} ${id}` });
+    seen.add(id);
+  });
+  return issues;
+}
+
+// Label names which start with __ are reserved for Prometheus' own use.
+function is_label_name(name: string): boolean {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) && !name.startsWith('__');
+}
+
+function check_label_names(labels: Record<string, string> | undefined, path: Path): CheckIssue[] {
+  return Object.keys(labels ?? {})
+    .filter((name) => !is_label_name(name))
+    .map((name) => ({ path: [...path, name], message: `${name} isn't a valid label name` }));
+}
+
+// Durations are written as Prometheus parses them, e.g. 1h30m or 15s.
+function check_duration(duration: string | undefined, path: Path): CheckIssue[] {
+  if (duration === undefined) return [];
+  // Prometheus accepts 0 without a unit
+  const valid =
+    duration === '0' || (duration !== '' && /^(\d+y)?(\d+w)?(\d+d)?(\d+h)?(\d+m)?(\d+s)?(\d+ms)?$/.test(duration));
+  return valid ? [] : [{ path, message: `${JSON.stringify(duration)} isn't a valid duration, e.g. 1h30m or 15s` }];
+}
+
+// Leaves empty objects out of the output.
+function non_empty<T>(value: T): T | undefined {
+  return Object.keys(value).length === 0 ? undefined : value;
+}
@@ -0,0 +1,184 @@
+import { EvaluationContext, current_context, current_path } from './context';
+import { RefError, SpogtanError } from './errors';
+import { Path, format_path } from './path';
+
+// A value given a name by `anchor`, which `ref` can refer to. It evaluates to the value itself.
+export type Anchor<T> = (() => T) & { readonly anchor: string };
+
+// A reference to an anchored value, or to a property within one, e.g. $.ref(web).metadata.name
+// It's a late value which evaluates to the referenced value. Refs to values of unknown type allow any property.
+export type Ref<T> = unknown extends T
+  ? UntypedRef
+  : (() => T) &
+      (T extends Record<string, unknown> ? { readonly [K in keyof T]-?: Ref<T[K]> } : unknown) &
+      (T extends Array<infer U> ? { readonly [index: number]: Ref<U> } : unknown);
+type UntypedRef = (() => unknown) & { readonly [property: string]: UntypedRef };
+
+// Everything an evaluation knows about its anchors. Refs to anchors which haven't been evaluated yet can't be resolved,
+// so the evaluation is repeated until they all can be, with the anchors found so far.
+export interface References {
+  anchors: Map<string, { value: unknown; path: Path }>;
+  // Anchors which have been seen in the current pass, and the ref which stopped each from being evaluated, if any.
+  seen: Map<string, string | undefined>;
+  // Refs which couldn't be resolved in the current pass, and errors which might have been caused by them.
+  pending: { anchor: string | undefined; path: Path }[];
+  // The number of anchors known at the start of the current pass.
+  known: number;
+}
+
+// Thrown by a ref to an anchor which hasn't been evaluated yet in this pass.
+class PendingRef extends SpogtanError {}
+
+export function new_references(): References {
+  return { anchors: new Map(), seen: new Map(), pending: [], known: 0 };
+}
+
+// Evaluates a value in passes within `context`, until every ref can be resolved. Each pass starts from scratch.
+export function evaluate_in_passes<T>(context: EvaluationContext, evaluate_once: () => T): T {
+  const { references } = context;
+  if (references === undefined) return evaluate_once();
+  for (;;) {
+    start_pass(context, references);
+    const evaluated = catch_pending(evaluate_once);
+    if (is_finished(references)) return evaluated as T;
+  }
+}
+
+export async function evaluate_in_passes_async<T>(
+  context: EvaluationContext,
+  evaluate_once: () => Promise<T>,
+): Promise<T> {
+  const { references } = context;
+  if (references === undefined) return evaluate_once();
+  for (;;) {
+    start_pass(context, references);
+    const evaluated = await catch_pending_async(evaluate_once);
+    if (is_finished(references)) return evaluated as T;
+  }
+}
+
+function start_pass(context: EvaluationContext, references: References) {
+  references.seen.clear();
+  references.pending = [];
+  references.known = references.anchors.size;
+  // Only the lookups made in the last pass are kept
+  const { provenance, usage } = context;
+  for (const key of Object.keys(provenance ?? {})) delete provenance?.[key];
+  usage?.frames.clear();
+  usage?.looked_up.clear();
+}
+
+// Returns whether the last pass resolved every ref, and throws if another pass wouldn't resolve any more of them.
+function is_finished(references: References): boolean {
+  const pending = references.pending.find((pending) => pending.anchor !== undefined);
+  if (pending === undefined) return true;
+  if (references.anchors.size > references.known) return false;
+
+  // Follow what stopped each anchor from being evaluated, until reaching an unknown anchor or going around in a cycle
+  const chain = [pending.anchor as string];
+  for (;;) {
+    const anchor = chain[chain.length - 1];
+    const path = references.pending.find((pending) => pending.anchor === anchor)?.path ?? pending.path;
+    if (!references.seen.has(anchor)) throw new RefError(`Reference to unknown anchor ${anchor}`, anchor, path);
+    const blocker = references.seen.get(anchor);
+    if (blocker === undefined) throw new RefError(`Reference to ${anchor} couldn't be resolved`, anchor, path);
+    if (chain.includes(blocker)) {
+      const cycle = [...chain.slice(chain.indexOf(blocker)), blocker];
+      throw new RefError(`Reference cycle: ${cycle.join(' -> ')}`, cycle[0], pending.path);
+    }
+    chain.push(blocker);
+  }
+}
+
+// Runs `fn`, returning undefined in place of its value if it needs a ref that can't be resolved yet. Errors thrown
+// after a ref couldn't be resolved may have been caused by its missing value, so they're held back until a later pass.
+export function catch_pending<T>(fn: () => T): T | undefined {
+  try {
+    return fn();
+  } catch (error) {
+    return hold_back(error);
+  }
+}
+
+export async function catch_pending_async<T>(fn: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await fn();
+  } catch (error) {
+    return hold_back(error);
+  }
+}
+
+function hold_back(error: unknown): undefined {
+  const references = current_context().references;
+  if (error instanceof PendingRef) return undefined;
+  if (references === undefined || references.pending.length === 0) throw error;
+  references.pending.push({ anchor: undefined, path: current_path() });
+  return undefined;
+}
+
+// Returns the number of refs which have been pending so far in this pass, to pass to `define_anchor`.
+export function pending_count(): number {
+  return current_context().references?.pending.length ?? 0;
+}
+
+// Returns a copy of the current context in which `anchor` is being evaluated, and marks that it has been seen so that
+// refs to it are reported as cycles rather than as unknown anchors.
+export function enter_anchor(anchor: string): EvaluationContext {
+  const context = current_context();
+  if (context.references !== undefined && !context.references.seen.has(anchor)) {
+    context.references.seen.set(anchor, undefined);
+  }
+  return { ...context, enclosing_anchors: { anchor, parent: context.enclosing_anchors } };
+}
+
+// Records the evaluated value of `anchor`, unless it depended on refs which couldn't be resolved in this pass.
+export function define_anchor(anchor: string, value: unknown, pending_before: number): void {
+  const references = current_context().references;
+  if (references === undefined || references.pending.length > pending_before) return;
+  const path = current_path();
+  const existing = references.anchors.get(anchor);
+  if (existing !== undefined && format_path(existing.path) !== format_path(path)) {
+    throw new RefError(
+      `Anchor ${anchor} is defined more than once, at ${format_path(existing.path) || '<root>'} and ${
+        format_path(path) || '<root>'
+      }`,
+      anchor,
+      path,
+    );
+  }
+  references.anchors.set(anchor, { value, path });
+}
+
+// Returns the value at `path` within the value of `anchor`.
+export function resolve_ref(anchor: string, path: Path): unknown {
+  const references = current_context().references;
+  if (references === undefined) {
+    throw new RefError(`Can't resolve a reference to ${anchor} outside of evaluate`, anchor, current_path());
+  }
+  const defined = references.anchors.get(anchor);
+  if (defined === undefined) {
+    references.pending.push({ anchor, path: current_path() });
+    // Every anchor this is within is stopped from being evaluated by it
+    for (let node = current_context().enclosing_anchors; node !== undefined; node = node.parent) {
+      if (references.seen.get(node.anchor) === undefined) references.seen.set(node.anchor, anchor);
+    }
+    throw new PendingRef(`Reference to ${anchor} hasn't been resolved yet`, current_path());
+  }
+  return path.reduce(
+    (value, segment) =>
+      value === null || value === undefined ? undefined : (value as Record<string | number, unknown>)[segment],
+    defined.value,
+  );
+}
+
+// Makes a Ref to the value at `path` within `anchor`, where properties can be accessed to refer to values within it.
+export function make_ref<T>(anchor: string, path: Path = []): Ref<T> {
+  const late_value = () => resolve_ref(anchor, path);
+  return new Proxy(late_value, {
+    get(target, property) {
+      // `then` is left alone, so that refs aren't mistaken for Promises
+      if (typeof property === 'symbol' || property === 'then') return undefined;
+      return make_ref(anchor, [...path, /^\d+$/.test(property) ? Number(property) : property]);
+    },
+  }) as unknown as Ref<T>;
+}
@@ -0,0 +1,175 @@
+import * as util from 'util';
+import { Path } from './path';
+import { Secret, reveal } from './secret';
+
+// A JSON Schema (draft-07), as produced by `toJSONSchema`.
+export type JSONSchema = { [key: string]: unknown };
+
+// A way in which a value doesn't match a Schema. `path` is relative to the value which was checked.
+export interface SchemaIssue {
+  path: Path;
+  message: string;
+}
+
+// Describes values of type T at runtime, so that values which only turn up at runtime (e.g. from JSON files or
+// environment variables) can be checked. Schemas are built from the combinators below, and T is inferred from them.
+export interface Schema<T> {
+  // Returns each way in which `value` isn't a T, or nothing if it is one.
+  check(value: unknown): SchemaIssue[];
+  json_schema(): JSONSchema;
+  // Whether an object property with this schema can be left out.
+  readonly optional: boolean;
+  // Never set. This carries the type that the schema describes, so that it can be inferred.
+  readonly type?: T;
+}
+
+// A Schema whose values can be undefined, and which can be left out of objects.
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+type Properties = Record<string, Schema<unknown>>;
+
+// A Schema for an object with known properties. Spogtan takes one of these to describe its Parameters.
+export interface ObjectSchema<T> extends Schema<T> {
+  readonly properties: Properties;
+}
+
+// The type described by a Schema, e.g. `type Parameters = Infer<typeof parameters>`
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalKeys<P extends Properties> = { [K in keyof P]: P[K] extends { optional: true } ? K : never }[keyof P];
+type Flatten<T> = { [K in keyof T]: T[K] };
+type InferObject<P extends Properties> = Flatten<
+  { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } & { [K in OptionalKeys<P>]?: Infer<P[K]> }
+>;
+
+export function string(): Schema<string> {
+  return primitive('string', 'a string');
+}
+
+export function number(): Schema<number> {
+  return primitive('number', 'a number');
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive('boolean', 'a boolean');
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean', description: string): Schema<T> {
+  return {
+    check: (value) =>
+      typeof value === type && !Number.isNaN(value)
+        ? []
+        : [{ path: [], message: `expected ${description}, got ${describe(value)}` }],
+    json_schema: () => ({ type }),
+    optional: false,
+  };
+}
+
+// A Schema for one of a fixed set of values, e.g. enumeration('comedy', 'sci-fi')
+export function enumeration<T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return {
+    check: (value) =>
+      values.includes(value as T)
+        ? []
+        : [{ path: [], message: `expected one of ${values.map(describe).join(', ')}, got ${describe(value)}` }],
+    json_schema: () => ({ enum: values }),
+    optional: false,
+  };
+}
+
+export function array<T>(items: Schema<T>): Schema<T[]> {
+  return {
+    check: (value) => {
+      if (!(value instanceof Array)) return [{ path: [], message: `expected an array, got ${describe(value)}` }];
+      return value.flatMap((item, index) => prefix(index, items.check(item)));
+    },
+    json_schema: () => ({ type: 'array', items: items.json_schema() }),
+    optional: false,
+  };
+}
+
+// A Schema for an object with the given properties. Properties which aren't listed aren't allowed, so that typos are
+// caught. Properties with an optional() schema can be left out.
+export function object<P extends Properties>(properties: P): ObjectSchema<InferObject<P>> {
+  return {
+    properties,
+    check: (value) => {
+      if (typeof value !== 'object' || value === null || value instanceof Array) {
+        return [{ path: [], message: `expected an object, got ${describe(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues = Object.entries(properties).flatMap(([key, schema]) =>
+        record[key] === undefined && !schema.optional
+          ? [{ path: [key], message: 'is required' }]
+          : prefix(key, schema.check(record[key])),
+      );
+      for (const key of Object.keys(record)) {
+        if (!Object.prototype.hasOwnProperty.call(properties, key))
+          issues.push({ path: [key], message: 'is not a known property' });
+      }
+      return issues;
+    },
+    json_schema: () => ({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(properties).map(([key, schema]) => [key, schema.json_schema()])),
+      required: Object.keys(properties).filter((key) => !properties[key].optional),
+      additionalProperties: false,
+    }),
+    optional: false,
+  };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    check: (value) => (value === undefined ? [] : schema.check(value)),
+    json_schema: () => schema.json_schema(),
+    optional: true,
+  };
+}
+
+// A Schema for a secret made with $.secret(), whose value matches `schema`. The JSON Schema is marked writeOnly, and
+// overrides of it are made secret. Issues with the value don't say what it was.
+export function secret<T>(schema: Schema<T>): Schema<Secret<T>> {
+  return {
+    check: (value) => {
+      if (!(value instanceof Secret)) return [{ path: [], message: 'expected a secret, see $.secret()' }];
+      return schema
+        .check(reveal(value))
+        .map((issue) => ({ ...issue, message: issue.message.replace(/, got .*$/s, '') }));
+    },
+    json_schema: () => ({ ...schema.json_schema(), writeOnly: true }),
+    optional: false,
+  };
+}
+
+// Narrows a Schema with a `predicate`, e.g. refine(number(), Number.isInteger, 'must be a whole number')
+// The predicate isn't part of the JSON Schema, so editors will only check the Schema it refines.
+export function refine<S extends Schema<unknown>>(
+  schema: S,
+  predicate: (value: Infer<S>) => boolean,
+  message: string,
+): S {
+  return {
+    ...schema,
+    check: (value: unknown) => {
+      const issues = schema.check(value);
+      if (issues.length > 0) return issues;
+      return predicate(value as Infer<S>) ? [] : [{ path: [], message }];
+    },
+  };
+}
+
+// Converts a Schema into a standalone JSON Schema document, e.g. for editor completion on override files.
+export function toJSONSchema(schema: Schema<unknown>): JSONSchema {
+  return { $schema: 'http://json-schema.org/draft-07/schema#', ...schema.json_schema() };
+}
+
+function prefix(segment: string | number, issues: SchemaIssue[]): SchemaIssue[] {
+  return issues.map((issue) => ({ ...issue, path: [segment, ...issue.path] }));
+}
+
+function describe(value: unknown): string {
+  return util.inspect(value, { depth: 1, breakLength: Infinity });
+}
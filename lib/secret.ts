@@ -0,0 +1,64 @@
+import * as util from 'util';
+import { is_plain_object } from './merge';
+import { Path, format_path } from './path';
+
+const redacted = '<redacted>';
+const secret_values = new WeakMap<Secret<unknown>, unknown>();
+
+// A value which is kept out of errors, traces and serialized output, such as a password. It renders as <redacted>
+// wherever it's converted to a string or inspected, and is only revealed when `evaluate` is given `reveal_secrets`,
+// or a serializer is.
+export class Secret<T> {
+  // Never set. This carries the type of the secret value.
+  readonly type?: T;
+
+  constructor(value: T) {
+    secret_values.set(this, value);
+  }
+
+  toString(): string {
+    return redacted;
+  }
+
+  toJSON(): string {
+    return redacted;
+  }
+
+  [util.inspect.custom](): string {
+    return redacted;
+  }
+}
+
+export function reveal<T>(secret: Secret<T>): T {
+  return secret_values.get(secret) as T;
+}
+
+// Replaces every Secret within an evaluated value with its value if `reveal_secrets` is set, or <redacted> if not.
+export function replace_secrets(value: unknown, reveal_secrets: boolean): unknown {
+  if (value instanceof Secret) {
+    return reveal_secrets ? replace_secrets(reveal(value), reveal_secrets) : redacted;
+  } else if (value instanceof Array) {
+    return value.map((item) => replace_secrets(item, reveal_secrets));
+  } else if (value instanceof Map) {
+    return new Map([...value].map(([key, item]) => [key, replace_secrets(item, reveal_secrets)]));
+  } else if (value instanceof Set) {
+    return new Set([...value].map((item) => replace_secrets(item, reveal_secrets)));
+  } else if (is_plain_object(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replace_secrets(item, reveal_secrets)]));
+  }
+  return value;
+}
+
+// Returns the paths of every Secret within an evaluated value, e.g. ['database.password']
+export function secret_paths(value: unknown, path: Path = []): string[] {
+  if (value instanceof Secret) {
+    return [format_path(path)];
+  } else if (value instanceof Array || value instanceof Set) {
+    return [...value].flatMap((item, index) => secret_paths(item, [...path, index]));
+  } else if (value instanceof Map) {
+    return [...value].flatMap(([key, item]) => secret_paths(item, [...path, String(key)]));
+  } else if (is_plain_object(value)) {
+    return Object.entries(value).flatMap(([key, item]) => secret_paths(item, [...path, key]));
+  }
+  return [];
+}
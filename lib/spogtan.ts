@@ -1,41 +1,204 @@
-import * as util from 'util';
+import {
+  EvaluationContext,
+  current_context,
+  run_in_context,
+  run_in_context_async,
+  with_frame,
+  frames_of,
+  current_path,
+  at_path,
+  with_index_offset,
+  take_index_offset,
+  with_lookup,
+  find_cycle,
+  in_async_evaluation,
+  StackNode,
+} from './context';
+import {
+  SpogtanError,
+  MissingParameterError,
+  CycleError,
+  ValidationError,
+  MergeError,
+  EvaluationError,
+} from './errors';
+import { OverrideSources, load_overrides, mark_applied } from './overrides';
+import {
+  CompiledStrategies,
+  DeepMergeOptions,
+  compile_strategies,
+  deep_merge,
+  delete_item,
+  is_plain_object,
+  tombstone,
+  type_name,
+  without_tombstones,
+} from './merge';
+import { Axes, Combination, MatrixOptions, combination_id, combinations } from './matrix';
+import { format_path } from './path';
+import {
+  Anchor,
+  Ref,
+  catch_pending,
+  catch_pending_async,
+  define_anchor,
+  enter_anchor,
+  evaluate_in_passes,
+  evaluate_in_passes_async,
+  make_ref,
+  new_references,
+  pending_count,
+} from './refs';
+import { ObjectSchema, object } from './schema';
+import { Secret, reveal } from './secret';
+import {
+  ParsedExpression,
+  TemplateExpression,
+  apply_filters,
+  has_default,
+  parse_expression,
+  to_string,
+  value_at_path,
+} from './template';
+import { is_recording_usage, new_usage, record_frame, record_lookup, report_unused } from './usage';
+import {
+  OpKind,
+  TraceStep,
+  Traced,
+  tag_op,
+  op_kind,
+  record_source,
+  copy_source,
+  frame_source,
+  is_tracing,
+  record_trace,
+} from './trace';
 
 // A LateValue is a function that defines how to construct a value at a later time, when `evaluate` is called.
 type LateValue<T> = () => Evaluable<T>;
-// An InheritedOp modifies the next highest value for a parameter in the stack.
-type InheritedOp<T> = (inherited: T | undefined) => Evaluable<T>;
+// An AsyncLateValue is a LateValue which returns a Promise. These can only be evaluated by `evaluateAsync`.
+type AsyncLateValue<T> = () => Promise<Evaluable<T>>;
+// An InheritedOp modifies the next highest value for a parameter in the stack. They're made with `$.inherit`, or by
+// spogtan's own ops such as `default`, `merge` and `template`, which brand them so that they can be told apart from
+// late values without looking at how many arguments they take.
+export type InheritedOp<T> = ((inherited?: T) => Evaluable<T> | Promise<Evaluable<T>>) & InheritedOpBrand;
+declare const inherited_op_brand: unique symbol;
+type InheritedOpBrand = { readonly [inherited_op_brand]: true };
 // An Evaluable value is one that can be evaluated by being passed to the `evaluate` function.
 // It can be a nested structure of arrays and objects with any values replaceable with LateValues.
-type Evaluable<T> =
+export type Evaluable<T> =
   | T
+  | Literal<T>
   | LateValue<T>
+  | AsyncLateValue<T>
   | { [key in keyof T]: Evaluable<T[key]> }
-  | (T extends Array<infer V> ? Evaluable<V>[] : never);
+  | (T extends Array<infer V> ? Evaluable<V>[] : never)
+  | (T extends Map<infer K, infer V> ? Map<K, Evaluable<V>> : never)
+  | (T extends Set<infer V> ? Set<Evaluable<V>> : never);
+
+// Classes can define how their instances are evaluated by implementing a method with this key, which returns an
+// Evaluable to evaluate in their place, e.g. [evaluate_symbol]() { return $.template`${'amount'}${'unit'}` }
+// The result is what ends up in the output, and so is also what gets serialized.
+export const evaluate_symbol: unique symbol = Symbol('spogtan.evaluate');
+export interface SelfEvaluating<T> {
+  [evaluate_symbol](): Evaluable<T>;
+}
 // Unravels a deep Evaluable object, returning the concrete object it represents.
-type Evaluated<T> = T extends LateValue<infer U>
+export type Evaluated<T> = T extends Literal<infer U>
+  ? U
+  : T extends AsyncLateValue<infer U>
+  ? Evaluated<U>
+  : T extends LateValue<infer U>
+  ? Evaluated<U>
+  : T extends SelfEvaluating<infer U>
   ? Evaluated<U>
   : T extends Array<infer U>
   ? Array<Evaluated<U>>
-  : // Only recurse on Objects, not primitive types
+  : T extends Map<infer K, infer V>
+  ? Map<K, Evaluated<V>>
+  : T extends Set<infer V>
+  ? Set<Evaluated<V>>
+  : // Only recurse on Objects, not primitive types or class instances such as Dates
   T extends Record<string, unknown> & { [key in infer K]: unknown }
   ? { [key in K]: Evaluated<T[key]> }
   : T;
 
 // A Frame contains a set of Parameters which are pushed onto the stack.
 // These values can be pulled out with calls to `get`.
-type Frame<Parameters> = {
+export type Frame<Parameters> = {
   [Param in keyof Parameters]?: FrameValue<Parameters[Param]>;
 };
 type FrameValue<T> = Evaluable<T> | InheritedOp<T>;
 
+// Never set. This carries the parameters which a component needs an enclosing `with` to set, see `component`.
+declare const required_parameters: unique symbol;
+interface RequiresParameters<Missing> {
+  readonly [required_parameters]: Missing;
+}
+type Requiring<T, Missing> = [Missing] extends [never] ? T : T & RequiresParameters<Missing>;
+
+// The parameters which components within T require but which haven't been set yet, looking a few levels deep.
+export type MissingParameters<T, Depth extends unknown[] = []> = 0 extends 1 & T
+  ? never
+  : Depth['length'] extends 6
+  ? never
+  : T extends RequiresParameters<infer Missing>
+  ? Missing
+  : T extends readonly (infer U)[]
+  ? MissingParameters<U, [...Depth, unknown]>
+  : T extends () => infer U
+  ? MissingParameters<U, [...Depth, unknown]>
+  : T extends Record<string, unknown>
+  ? { [Key in keyof T]-?: MissingParameters<T[Key], [...Depth, unknown]> }[keyof T]
+  : never;
+
+// Fails to type-check against a value which holds a component that's missing a required parameter, naming it.
+declare const missing_parameter: unique symbol;
+type Provided<T> = [MissingParameters<T>] extends [never]
+  ? unknown
+  : { readonly [missing_parameter]: `Missing required parameter ${MissingParameters<T> & string}` };
+
+// A component made by `component`, which is called with a Frame like a wrapped value. The Required parameters which
+// the Frame doesn't set must be set by an enclosing `with` before the component is evaluated.
+export type Component<Parameters, T, Required extends keyof Parameters> = <Given extends keyof Parameters = never>(
+  frame?: Frame<Parameters> & { [Param in Given]?: unknown },
+) => Requiring<() => Evaluated<T>, Exclude<Required, Given>>;
+
+// What a component evaluates to: a key for each of its parameters, and the extra values it was given.
+type ComponentValue<Parameters, Param extends keyof Parameters, Extra> = {
+  [Key in Param | keyof Extra]: Key extends keyof Extra ? Extra[Key] : Key extends Param ? Parameters[Key] : never;
+};
+
+// A Spogtan instance, which can be called to get the evaluated value of a parameter, as returned by `spogtan()`.
+export type CallableSpogtan<Parameters> = Spogtan<Parameters> & Spogtan<Parameters>['get_evaluated'];
+
+// Parameters within the namespace `Name`, e.g. Namespace<'db', { port: number }> is { 'db.port': number }.
+export type Namespace<Name extends string, Parameters> = {
+  [Param in keyof Parameters as `${Name}.${Param & string}`]: Parameters[Param];
+};
+
+// The Parameters within the namespace `Name`, without it, e.g. { port: number } for 'db' if Parameters has 'db.port'.
+export type Scoped<Parameters, Name extends string> = {
+  [Param in keyof Parameters as Param extends `${Name}.${infer Rest}` ? Rest : never]: Parameters[Param];
+};
+
 // Contains a stack of Frames and provides methods to get, set and manipulate FrameValues.
 // Parameters should be set to an interface which represents the keys and values that can
-// be set within Frames.
+// be set within Frames. If a `schema` is given, the value of each parameter is checked against it when it's resolved.
 export class Spogtan<Parameters> extends Function {
-  private stack: Frame<Parameters>[] = [];
+  // Identifies the Frames this instance pushes onto the stack of the current evaluation. Instances made by `extend`
+  // and `scope` are given the stack of the instance they were made from.
+  private readonly stack_owner: Record<string, never>;
+  // Prepended to the parameters of an instance made by `scope`, e.g. 'db.' so that its `port` is `db.port`.
+  private readonly prefix: string;
 
-  constructor() {
+  constructor(
+    private readonly schema?: ObjectSchema<Parameters>,
+    shared?: { stack_owner: Record<string, never>; prefix: string },
+  ) {
     super();
+    this.stack_owner = shared?.stack_owner ?? {};
+    this.prefix = shared?.prefix ?? '';
     // Make the Spogtan object callable for easy access to get_evaluated.
     // This method is used in templates and affords the biggest readability improvement if made terse.
     const $ = this.get_evaluated.bind(this);
@@ -45,29 +208,96 @@ export class Spogtan<Parameters> extends Function {
 
   // Creates an InheritedOp which only sets the given value if there's no inherited value
   default<T>(value: Evaluable<T>): InheritedOp<T> {
-    return (inherited) => (inherited === undefined ? value : inherited);
+    return inherited_op((inherited?: T) => (inherited === undefined ? value : inherited), 'default');
+  }
+
+  // Marks `op` as an InheritedOp, which is given the inherited value of the parameter it's set on, e.g.
+  // $.with({ replicas: $.inherit((replicas) => (replicas ?? 1) * 2) }, ...)
+  // Functions which aren't marked are late values, however many arguments they take.
+  inherit<T>(op: (inherited: T | undefined) => Evaluable<T> | Promise<Evaluable<T>>): InheritedOp<T> {
+    return inherited_op(op as (inherited?: T) => Evaluable<T> | Promise<Evaluable<T>>, 'op');
   }
 
   // Wraps all values within a Frame as default values. This is useful when using wrap(), so that you can
   // specify several defaults at once.
   defaults(frame: Frame<Parameters>): Frame<Parameters> {
     const default_entries = Object.entries(frame).map(([key, value]) => [key, this.default(value)]);
-    return Object.fromEntries(default_entries) as Frame<Parameters>;
+    const defaults = Object.fromEntries(default_entries) as Frame<Parameters>;
+    record_source(defaults, 'defaults');
+    return defaults;
+  }
+
+  // Creates an instance with `More` parameters which shares this one's stack, so that each sees the Frames the other
+  // pushes, e.g. const $k8s = $.extend<KubernetesParameters>(). Values written against either can be used with the
+  // other. The `schema` of the extra parameters is added to this instance's.
+  extend<More>(schema?: ObjectSchema<More>): CallableSpogtan<Parameters & More> {
+    const properties = Object.fromEntries(
+      Object.entries(schema?.properties ?? {}).map(([parameter, property]) => [this.prefix + parameter, property]),
+    );
+    const extended =
+      schema === undefined
+        ? this.schema
+        : (object({ ...this.schema?.properties, ...properties }) as ObjectSchema<unknown>);
+    return new Spogtan(extended as ObjectSchema<Parameters & More> | undefined, this.shared()) as CallableSpogtan<
+      Parameters & More
+    >;
+  }
+
+  // Creates an instance for the parameters in the namespace `name`, which it gets and sets without the namespace,
+  // e.g. $.scope('db')('port') is $('db.port'). It shares this instance's stack. Given a `build` function, returns
+  // what it builds with the instance, so that components written against their own Parameters can be namespaced, e.g.
+  // $.scope('db', postgres) where postgres takes a CallableSpogtan<{ port: number }>.
+  scope<Name extends string>(name: Name): CallableSpogtan<Scoped<Parameters, Name>>;
+  scope<Name extends string, T>(name: Name, build: ($: CallableSpogtan<Scoped<Parameters, Name>>) => T): T;
+  scope<Name extends string, T>(
+    name: Name,
+    build?: ($: CallableSpogtan<Scoped<Parameters, Name>>) => T,
+  ): CallableSpogtan<Scoped<Parameters, Name>> | T {
+    const scoped = new Spogtan(this.schema as ObjectSchema<Scoped<Parameters, Name>> | undefined, {
+      stack_owner: this.stack_owner,
+      prefix: `${this.prefix}${name}.`,
+    }) as CallableSpogtan<Scoped<Parameters, Name>>;
+    return build === undefined ? scoped : build(scoped);
+  }
+
+  private shared(): { stack_owner: Record<string, never>; prefix: string } {
+    return { stack_owner: this.stack_owner, prefix: this.prefix };
   }
 
   // Ensures that when `value` is evaluated, the given `frame`'s parameters are available in the stack.
-  with<T>(frame: Frame<Parameters>, value: T) {
-    return (): Evaluated<T> => {
-      this.stack.push(frame);
-      const return_value = evaluate(value);
-      this.stack.pop();
-      return return_value;
-    };
+  // The parameters set by `frame` are no longer required by the components within `value`.
+  with<T, Given extends keyof Parameters = never>(
+    frame: Frame<Parameters> & { [Param in Given]?: unknown },
+    value: T,
+  ): Requiring<() => Evaluated<T>, Exclude<MissingParameters<T>, Given>> {
+    record_source(frame, 'with');
+    const owner = this.stack_owner;
+    const pushed = this.namespaced(frame);
+    return stepped_late_value(function* () {
+      record_frame(owner, pushed, false);
+      return (yield new InContext(with_frame(owner, pushed), value)) as Evaluated<T>;
+    }) as Requiring<() => Evaluated<T>, Exclude<MissingParameters<T>, Given>>;
+  }
+
+  // Returns a copy of `frame` with this instance's namespace added to its parameters, if it has one.
+  private namespaced(frame: Frame<Parameters>): Record<string, unknown> {
+    if (this.prefix === '') return frame;
+    const namespaced = Object.fromEntries(Object.entries(frame).map(([key, value]) => [this.prefix + key, value]));
+    copy_source(frame, namespaced);
+    return namespaced;
+  }
+
+  // The parameter's name on the stack, including this instance's namespace.
+  private full_name(parameter: PropertyKey): string {
+    return this.prefix + String(parameter);
   }
 
   // Allows a user to apply their own `frame` of parameters to a given value. This is useful for creating a reusable value.
   wrap<T>(value: Evaluable<T>) {
-    return (frame: Frame<Parameters> = {}): (() => Evaluated<T>) => this.with(frame, value) as () => Evaluated<T>;
+    return (frame: Frame<Parameters> = {}): (() => Evaluated<T>) => {
+      record_source(frame, 'wrap');
+      return this.with(frame, value) as () => Evaluated<T>;
+    };
   }
 
   // A helper for creating a wrapped evaluable with a frame of defaults
@@ -78,6 +308,65 @@ export class Spogtan<Parameters> extends Function {
     return this.wrap(this.with(this.defaults(defaults), value) as Evaluable<T>);
   }
 
+  // Like `with`, but `frame` takes precedence over every Frame within `value`, however deeply it was pushed, so that
+  // its InheritedOps modify the values `value` gives its parameters, e.g.
+  // $.overlay({ labels: spogtan.merge({ env: 'prod' }) }, $deployment())
+  // Overrides take precedence over overlays. Like them, an inner overlay takes precedence over an outer one.
+  overlay<T>(frame: Frame<Parameters>, value: T): () => Evaluated<T> {
+    record_source(frame, 'overlay');
+    const owner = this.stack_owner;
+    const pushed = this.namespaced(frame);
+    return stepped_late_value(function* () {
+      record_frame(owner, pushed, true);
+      return (yield new InContext(with_frame(owner, pushed, 'overlay'), value)) as Evaluated<T>;
+    });
+  }
+
+  // Applies overrides from outside of the config, such as environment variables and command line flags, to `value`.
+  // Unlike `with`, the overrides take precedence over every Frame within `value`, however deeply it was pushed.
+  // Overrides are loaded from `sources` when `value` is evaluated, or if no sources are given, from SPOGTAN_*
+  // environment variables and the overrides given to `evaluate` (which is how `spogtan build --set` works).
+  // They are coerced to and checked against the schema given to `spogtan()`, which is required.
+  with_overrides<T>(value: T, sources?: OverrideSources): () => Evaluated<T> {
+    const call_site = new Error();
+    const owner = this.stack_owner;
+    const schema = this.schema as ObjectSchema<unknown> | undefined;
+    return stepped_late_value(function* () {
+      if (schema === undefined) {
+        throw new Error('with_overrides needs a schema to check overrides against, see spogtan(schema)');
+      }
+      const given = current_context().override_sources;
+      if (sources === undefined && given !== undefined) mark_applied(given);
+      const frame = load_overrides(schema, sources ?? { env: process.env, ...given });
+      record_source(frame, 'with_overrides', call_site);
+      record_frame(owner, frame, true);
+      return (yield new InContext(with_frame(owner, frame, 'override'), value)) as Evaluated<T>;
+    });
+  }
+
+  // Makes a component: an object with a key for each of its `required` parameters and `defaults`, and the `extra`
+  // values, which is called with a Frame like a wrapped value, e.g.
+  // const $movie = $.component({ required: ['title', 'year'], defaults: { genre: 'drama' } }, { id: ... })
+  // Every required parameter must be set when it's called, or by an enclosing `with`, or else `evaluate` fails to
+  // type-check, naming the missing parameter.
+  component<
+    Required extends keyof Parameters,
+    Extra extends Record<string, unknown> = Record<string, never>,
+    Defaulted extends keyof Parameters = never,
+  >(
+    parameters: { required: readonly Required[]; defaults?: Frame<Parameters> & { [Param in Defaulted]?: unknown } },
+    extra?: Extra,
+  ): Component<Parameters, ComponentValue<Parameters, Required | Defaulted, Extra>, Required> {
+    const defaults: Frame<Parameters> = parameters.defaults ?? {};
+    const keys = [...parameters.required, ...(Object.keys(defaults) as Defaulted[])];
+    const wrapped = this.wrap_with_defaults(defaults, this.objectify(keys, extra ?? {}));
+    return ((frame = {}) => wrapped(frame)) as Component<
+      Parameters,
+      ComponentValue<Parameters, Required | Defaulted, Extra>,
+      Required
+    >;
+  }
+
   // Returns an Evaluable which, When evaluated, will return the value of the given `parameter`.
   get<Param extends keyof Parameters>(parameter: Param): () => Evaluable<Parameters[Param]>;
   get<Param extends keyof Parameters>(
@@ -90,34 +379,90 @@ export class Spogtan<Parameters> extends Function {
   ): () => Evaluable<Parameters[Param]> | undefined {
     // undefined is added to the return type because Typescript can't tell that
     // undefined is only returned when Parameters[Param] extends undefined.
-    return (): Evaluable<Parameters[Param]> | undefined => {
-      if (this.stack.length === 0) {
-        throw new Error(
-          'Tried to get a parameter outside of an evaluation. ' +
-            'Did you forget to wrap a $() inside a () =>, or try to use $() inside a $template``?',
-        );
-      }
+    return stepped_late_value(() => this.lookup(parameter, required));
+  }
+
+  // Looks up the evaluated value of `parameter`, reusing the result of an earlier lookup with the same stack.
+  // The lookup happens in a context which records it, so that a parameter which depends on itself is reported as a
+  // cycle rather than overflowing the call stack.
+  private *lookup<Param extends keyof Parameters>(
+    parameter: Param,
+    required: boolean,
+  ): Steps<Evaluable<Parameters[Param]> | undefined> {
+    const name = this.full_name(parameter);
+    const context = current_context();
+    const memo = context.memoize ? memo_of(context.stack, this.stack_owner) : undefined;
+    let lookup = memo?.get(name);
+    if (lookup === undefined) {
+      const cycle = find_cycle(this.stack_owner, name);
+      if (cycle !== undefined) throw new CycleError(cycle, current_path());
+      const resolve = stepped_late_value(() => this.resolve(name));
+      lookup = (yield new InContext(with_lookup(this.stack_owner, name), resolve)) as Lookup;
+      memo?.set(name, lookup);
+    }
+    if (lookup.steps !== undefined) record_trace({ parameter: name, steps: lookup.steps });
+
+    if (lookup.value === undefined && required) {
+      const frames = frames_of(this.stack_owner).map((frame) => ({
+        keys: Object.keys(frame),
+        source: frame_source(frame),
+      }));
+      throw new MissingParameterError(name, current_path(), frames);
+    }
+    // The value has already been evaluated, so it's marked as such to save evaluating it again
+    return new Concrete(lookup.value) as unknown as Evaluable<Parameters[Param]>;
+  }
 
-      let value: Evaluable<Parameters[Param]> | undefined = undefined;
+  // Finds the value of the parameter called `name`, including any namespace, by applying each Frame in the stack,
+  // outermost first, and then evaluates it.
+  // This yields values which need to be evaluated along the way, see `stepped_late_value`.
+  private *resolve(name: string): Steps<Concrete> {
+    const stack = frames_of(this.stack_owner);
+    if (stack.length === 0) {
+      throw new Error(
+        'Tried to get a parameter outside of an evaluation. ' +
+          'Did you forget to wrap a $() inside a () =>, or try to use $() inside a $template``?',
+      );
+    }
 
-      for (const frame of this.stack) {
-        if (!(parameter in frame)) continue;
-        const frame_value = frame[parameter] as FrameValue<Parameters[Param]>;
+    let value: unknown = undefined;
+    // Only build up a trace of how the value came about when evaluate was asked for one
+    const steps: TraceStep[] | undefined = is_tracing() ? [] : undefined;
+    // Likewise, only note which Frames set the parameter when evaluate was asked for unused parameters
+    const setters: [Record<string, unknown>, boolean][] | undefined = is_recording_usage() ? [] : undefined;
 
-        if (frame_value instanceof Function && frame_value.length === 1) {
-          value = frame_value(evaluate(value) as Parameters[Param] | undefined);
-        } else {
-          value = frame_value as Evaluable<Parameters[Param]>;
-        }
-      }
+    for (const frame of stack) {
+      if (!(name in frame)) continue;
+      const frame_value = frame[name];
 
-      if (value === undefined && required) {
-        throw new Error(
-          `Missing required parameter ${parameter}. Current stack: ${util.inspect(this.stack, { depth: null })}`,
-        );
+      const is_op = is_inherited_op(frame_value);
+      setters?.push([frame, is_op]);
+      if (current_context().warn_legacy_ops) warn_legacy_op(name, frame, frame_value, is_op);
+      if (is_op) {
+        const inherited = yield value;
+        steps?.push({ kind: op_kind(frame_value), source: frame_source(frame), inherited });
+        // InheritedOps created by spogtan have steps of their own, which are yielded from here. What they return is
+        // evaluated already, so it's marked as such to keep any literals within it as they are.
+        const op_steps = steps_of.get(frame_value as AnyFunction);
+        value =
+          op_steps !== undefined
+            ? new Concrete(yield* op_steps(inherited))
+            : (frame_value as InheritedOp<unknown>)(inherited);
+      } else {
+        steps?.push({ kind: 'value', source: frame_source(frame), value: frame_value });
+        value = frame_value;
       }
-      return value;
-    };
+    }
+
+    if (setters !== undefined) record_lookup(this.stack_owner, name, setters);
+    const evaluated = value === undefined ? undefined : yield value;
+    const properties = this.schema?.properties;
+    if (properties !== undefined && Object.prototype.hasOwnProperty.call(properties, name) && evaluated !== undefined) {
+      const issues = properties[name].check(evaluated);
+      if (issues.length > 0) throw new ValidationError(name, current_path(), issues);
+    }
+    const lookup: Lookup = { value: evaluated, steps };
+    return new Concrete(lookup);
   }
 
   // Evaluates and returns the value of the given `parameter`.
@@ -126,7 +471,20 @@ export class Spogtan<Parameters> extends Function {
   get_evaluated<Param extends keyof Parameters>(parameter: Param, required: true): Parameters[Param];
   get_evaluated<Param extends keyof Parameters>(parameter: Param, required: false): Parameters[Param] | undefined;
   get_evaluated<Param extends keyof Parameters>(parameter: Param, required = true): Parameters[Param] | undefined {
-    return evaluate(this.get(parameter, required)) as Parameters[Param];
+    return evaluate(this.get(parameter, required) as unknown) as Parameters[Param];
+  }
+
+  // Like get_evaluated, but for use within an async late value when the parameter's value may need to be awaited.
+  get_evaluated_async<Param extends keyof Parameters>(parameter: Param): Promise<Parameters[Param]>;
+  get_evaluated_async<Param extends keyof Parameters>(
+    parameter: Param,
+    required: false,
+  ): Promise<Parameters[Param] | undefined>;
+  get_evaluated_async<Param extends keyof Parameters>(
+    parameter: Param,
+    required = true,
+  ): Promise<Parameters[Param] | undefined> {
+    return evaluateAsync(this.get(parameter, required) as unknown) as Promise<Parameters[Param]>;
   }
 
   // Constructs an object with a key for each parameter in `parameters`, where the value is $.get() for that parameter.
@@ -166,64 +524,663 @@ export class Spogtan<Parameters> extends Function {
     ) as Return;
   }
 
-  // An ES6 template string which takes in parameter names and returns evaluated parameter values when evaluated.
-  // E.g. $.template`This is the value of parameter a: ${'a'}`
-  template(strings: readonly string[], ...parameters: (keyof Parameters | '$inherited')[]) {
-    return (inherited?: unknown): string => {
-      const parts = [];
-      for (let p = 0; p < parameters.length; ++p) {
-        const parameter = parameters[p];
-        parts.push(strings[p]);
-        const evaluated = parameter === '$inherited' ? inherited : this.get_evaluated(parameter);
-        if (evaluated === null) {
-          // String.join() returns empty string for null
-          parts.push('null');
-        } else {
-          parts.push(evaluated);
-        }
+  // An ES6 template string which takes in parameter paths and returns evaluated parameter values when evaluated, e.g.
+  // $.template`${'service.name'}:${'port'}`. Paths can be followed by filters, e.g. ${'name | slug'} or
+  // ${'config | yaml | indent(2)'}, and late values can be used in place of a path, e.g. ${() => $('year') + 1}.
+  // '$inherited' is the value the template is modifying. Only templates which use it are InheritedOps, so that others
+  // don't need the inherited value to be evaluated.
+  template(
+    strings: readonly string[],
+    ...expressions: TemplateExpression<Parameters>[]
+  ): InheritedOp<string> | (() => string) {
+    const parsed = expressions.map((expression) =>
+      typeof expression === 'string' ? parse_expression(expression) : expression,
+    );
+    if (!parsed.some((expression) => !(expression instanceof Function) && expression.path[0] === '$inherited')) {
+      return stepped_late_value(() => this.template_steps(strings, parsed, undefined));
+    }
+    return inherited_op(
+      stepped_op((inherited?: unknown) => this.template_steps(strings, parsed, inherited)),
+      'template',
+    );
+  }
+
+  private *template_steps(
+    strings: readonly string[],
+    expressions: (ParsedExpression | (() => unknown))[],
+    inherited: unknown,
+  ): Steps<string> {
+    const parts = [];
+    let secret = false;
+    for (let e = 0; e < expressions.length; ++e) {
+      const expression = expressions[e];
+      parts.push(strings[e]);
+      let evaluated;
+      if (expression instanceof Function) {
+        evaluated = yield expression;
+      } else {
+        const length = this.parameter_length(expression.path);
+        const parameter = expression.path.slice(0, length).join('.');
+        evaluated =
+          parameter === '$inherited'
+            ? inherited
+            : yield this.get(parameter as keyof Parameters, !has_default(expression));
+        // A template which includes a secret is secret as a whole
+        if (evaluated instanceof Secret) [secret, evaluated] = [true, reveal(evaluated)];
+        evaluated = apply_filters(value_at_path(evaluated, expression, length), expression);
       }
-      parts.push(strings[strings.length - 1]);
-      return parts.join('');
-    };
+      if (evaluated instanceof Secret) [secret, evaluated] = [true, reveal(evaluated)];
+      parts.push(to_string(evaluated));
+    }
+    parts.push(strings[strings.length - 1]);
+    return secret ? (new Secret(parts.join('')) as unknown as string) : parts.join('');
+  }
+
+  // The number of segments at the start of a template path which name the parameter. It's the first, unless the
+  // parameter is namespaced, e.g. 2 for db.host.name when there's a db.host parameter.
+  private parameter_length(path: string[]): number {
+    const frames = frames_of(this.stack_owner);
+    const properties = this.schema?.properties ?? {};
+    for (let length = path.length; length > 1; --length) {
+      const name = this.full_name(path.slice(0, length).join('.'));
+      if (name in properties || frames.some((frame) => name in frame)) return length;
+    }
+    return 1;
+  }
+
+  // Makes a copy of `body` for each of `values`, with `parameter` set to the value, e.g.
+  // $.each('region', ['us', 'eu'], $service())
+  // Takes the same options as `matrix`. Returns an array, or an object if given a `key`.
+  each<Param extends keyof Parameters, T, Key extends string>(
+    parameter: Param,
+    values: readonly Parameters[Param][],
+    body: T,
+    options: MatrixOptions<{ [P in Param]: Parameters[Param] }, Frame<Parameters>, Key> & {
+      key: (combination: { [P in Param]: Parameters[Param] }) => Key;
+    },
+  ): Record<Key, () => Evaluated<T>>;
+  each<Param extends keyof Parameters, T>(
+    parameter: Param,
+    values: readonly Parameters[Param][],
+    body: T,
+    options?: MatrixOptions<{ [P in Param]: Parameters[Param] }, Frame<Parameters>, never>,
+  ): (() => Evaluated<T>)[];
+  each<Param extends keyof Parameters, T, Key extends string>(
+    parameter: Param,
+    values: readonly Parameters[Param][],
+    body: T,
+    options: MatrixOptions<{ [P in Param]: Parameters[Param] }, Frame<Parameters>, Key> = {},
+  ): Record<Key, () => Evaluated<T>> | (() => Evaluated<T>)[] {
+    return this.expand(
+      { [parameter]: values },
+      body,
+      options as MatrixOptions<Record<string, unknown>, Frame<Parameters>, Key>,
+    );
+  }
+
+  // Makes a copy of `body` for every combination of the values of several parameters, with a Frame which sets them, e.g.
+  // $.matrix({ env: ['dev', 'prod'], region: ['us', 'eu'] }, $service(), { exclude: [{ env: 'dev', region: 'eu' }] })
+  // Returns an array in the order of the combinations, or an object if given a `key`.
+  matrix<A extends Axes<Parameters>, T, Key extends string>(
+    axes: A,
+    body: T,
+    options: MatrixOptions<Combination<A>, Frame<Parameters>, Key> & { key: (combination: Combination<A>) => Key },
+  ): Record<Key, () => Evaluated<T>>;
+  matrix<A extends Axes<Parameters>, T>(
+    axes: A,
+    body: T,
+    options?: MatrixOptions<Combination<A>, Frame<Parameters>, never>,
+  ): (() => Evaluated<T>)[];
+  matrix<A extends Axes<Parameters>, T, Key extends string>(
+    axes: A,
+    body: T,
+    options: MatrixOptions<Combination<A>, Frame<Parameters>, Key> = {},
+  ): Record<Key, () => Evaluated<T>> | (() => Evaluated<T>)[] {
+    return this.expand(axes, body, options as MatrixOptions<Record<string, unknown>, Frame<Parameters>, Key>);
+  }
+
+  private expand<T, Key extends string>(
+    axes: Record<string, readonly unknown[] | undefined>,
+    body: T,
+    options: MatrixOptions<Record<string, unknown>, Frame<Parameters>, Key>,
+  ): Record<Key, () => Evaluated<T>> | (() => Evaluated<T>)[] {
+    const entries = combinations(axes, options).map((combination) => {
+      const id = options.key !== undefined ? options.key(combination) : combination_id(combination);
+      const frame = {
+        ...combination,
+        ...(options.id !== undefined && { [options.id]: id }),
+        ...options.frame?.(combination),
+      } as Frame<Parameters>;
+      return [id, this.with(frame, body)] as const;
+    });
+    if (options.key === undefined) return entries.map(([, value]) => value);
+
+    const keyed = {} as Record<Key, () => Evaluated<T>>;
+    for (const [key, value] of entries) {
+      if (key in keyed) throw new Error(`More than one combination has the key ${key}`);
+      keyed[key as Key] = value;
+    }
+    return keyed;
+  }
+
+  // Marks `value` as a secret, such as a password, which is redacted in errors, traces and serialized output unless
+  // they're asked to reveal it. Templates and merges which include a secret are secret too.
+  secret<T>(value: Evaluable<T>): Secret<T> {
+    return new Secret(value) as Secret<T>;
+  }
+
+  // Marks `value` as part of the output as it is, so that `evaluate` doesn't call it or go into it. This lets the
+  // output hold functions and classes, e.g. the callbacks of a Webpack or Jest config. Function values keep their
+  // signature, e.g. $.literal((request: Request) => request.path) evaluates to a (request: Request) => string.
+  literal<F extends (...args: never[]) => unknown>(value: F): Literal<F>;
+  literal<T>(value: T): Literal<T>;
+  literal<T>(value: T): Literal<T> {
+    return literal(value);
   }
+
+  // Names `value` so that other values in the same evaluation can refer to it with `ref`. The anchor evaluates to the
+  // value itself, and should be placed in the output once.
+  anchor<T>(name: string, value: T): Anchor<Evaluated<T>> {
+    return Object.assign(anchor_late_value(name, value), { anchor: name });
+  }
+
+  // Refers to the evaluated value of an anchor, or a property within it, e.g. $.ref(web).metadata.labels
+  // Refs can be given the anchor itself or its name. The value they refer to can be anywhere else in the same
+  // evaluation, so values which hold refs are evaluated again once the anchors they refer to have been evaluated.
+  ref<T>(anchor: Anchor<T>): Ref<T>;
+  ref<T = unknown>(anchor: string): Ref<T>;
+  ref<T>(anchor: Anchor<T> | string): Ref<T> {
+    return make_ref<T>(typeof anchor === 'string' ? anchor : anchor.anchor);
+  }
+}
+
+function anchor_late_value<T>(name: string, value: T): () => Evaluated<T> {
+  return stepped_late_value(function* () {
+    const pending_before = pending_count();
+    const evaluated = (yield new InContext(enter_anchor(name), value)) as Evaluated<T>;
+    define_anchor(name, evaluated, pending_before);
+    return evaluated;
+  });
+}
+
+export interface EvaluateOptions {
+  // Also return the provenance of every parameter looked up, keyed by output path. See `explain`.
+  trace?: boolean;
+  // Overrides for `with_overrides` to apply, in addition to SPOGTAN_* environment variables.
+  overrides?: OverrideSources;
+  // Reuse the value of a parameter for later lookups with the same stack, rather than evaluating it again. This is on
+  // by default, and relies on late values returning the same thing each time they're called with the same stack.
+  memoize?: boolean;
+  // Warn about Frame values which were told apart from late values by how many arguments they take, before
+  // InheritedOps were marked with `$.inherit`, and which would now be treated differently.
+  warn_legacy_ops?: boolean;
+  // Return the values of secrets made with `$.secret`, rather than leaving them wrapped so that they're redacted.
+  reveal_secrets?: boolean;
+  // Warn about, or throw an UnusedParameterError for, parameters which Frames set but nothing read, such as typos.
+  // Overrides which were always replaced by other overrides before being read are included.
+  unused?: 'warn' | 'error';
 }
 
 // Recursively evaluates an Evaluable, making everything within `value` concrete.
-export function evaluate<Evaluable>(value: Evaluable): Evaluated<Evaluable> {
-  if (value instanceof Function) {
-    return evaluate(value());
+// The path to each value in the output is tracked, so that errors can report where they were thrown.
+export function evaluate<Evaluable>(value: Evaluable & Provided<Evaluable>): Evaluated<Evaluable>;
+export function evaluate<Evaluable>(
+  value: Evaluable & Provided<Evaluable>,
+  options: EvaluateOptions & { trace: true },
+): Traced<Evaluated<Evaluable>>;
+export function evaluate<Evaluable>(
+  value: Evaluable & Provided<Evaluable>,
+  options: EvaluateOptions,
+): Evaluated<Evaluable> | Traced<Evaluated<Evaluable>>;
+export function evaluate<Evaluable>(
+  value: Evaluable,
+  options: EvaluateOptions = {},
+): Evaluated<Evaluable> | Traced<Evaluated<Evaluable>> {
+  const outermost = current_context().references === undefined;
+  const context = options_context(options);
+  const evaluated = run_in_context(context, () =>
+    outermost ? evaluate_in_passes(context, () => evaluate_value(value)) : evaluate_value(value),
+  ) as Evaluated<Evaluable>;
+  if (options.unused !== undefined && context.usage !== undefined) report_unused(context.usage, options.unused);
+  // Evaluations within a traced one, such as those of $(), add to its provenance rather than returning their own
+  return options.trace && context.provenance !== undefined
+    ? { value: evaluated, provenance: context.provenance }
+    : evaluated;
+}
+
+function evaluate_value(value: unknown): unknown {
+  if (value instanceof Concrete || value instanceof Literal) {
+    return value.value;
+  } else if (value instanceof Secret) {
+    const revealed = evaluate_value(reveal(value));
+    return current_context().reveal_secrets ? revealed : new Secret(revealed);
+  } else if (value instanceof Function) {
+    const steps = steps_of.get(value as AnyFunction);
+    let result;
+    try {
+      // Steps evaluate what they return, so it isn't evaluated again. This keeps any literals within it as they are.
+      if (steps !== undefined) return concrete_value(run_steps(steps()));
+      result = value();
+    } catch (error) {
+      throw add_path(error);
+    }
+    return evaluate_value(result);
+  } else if (is_promise(value)) {
+    // Within evaluateAsync, this is usually $() reading a parameter which is async
+    const message = in_async_evaluation()
+      ? "Got a Promise, which $() and evaluate can't wait for, " +
+        'use $.get() or $.get_evaluated_async() to read parameters which are async'
+      : 'Got a Promise, use evaluateAsync to evaluate values which return Promises';
+    throw new SpogtanError(message, current_path());
   } else if (value instanceof Array) {
-    return value.map(evaluate) as Evaluated<Evaluable>;
-  } else if (value instanceof Object) {
+    const offset = take_index_offset();
+    return value.map((item, index) =>
+      run_in_context(at_path(offset + index), () => catch_pending(() => evaluate_value(item))),
+    );
+  } else if (is_self_evaluating(value)) {
+    let result;
+    try {
+      result = value[evaluate_symbol]();
+    } catch (error) {
+      throw add_path(error);
+    }
+    return evaluate_value(result);
+  } else if (value instanceof Map) {
+    return new Map(
+      [...value].map(([key, item]) => [
+        key,
+        run_in_context(at_path(map_key_segment(key)), () => catch_pending(() => evaluate_value(item))),
+      ]),
+    );
+  } else if (value instanceof Set) {
+    return new Set(
+      [...value].map((item, index) => run_in_context(at_path(index), () => catch_pending(() => evaluate_value(item)))),
+    );
+  } else if (is_plain_object(value)) {
     return Object.fromEntries(
-      Object.entries(value).map(([key, value]) => [key, evaluate(value)]),
-    ) as Evaluated<Evaluable>;
+      Object.entries(value).map(([key, value]) => [
+        key,
+        run_in_context(at_path(key), () => catch_pending(() => evaluate_value(value))),
+      ]),
+    );
+  } else {
+    // Primitives, and instances of other classes such as Date, URL and Buffer, are already concrete
+    return value;
+  }
+}
+
+// Like `evaluate`, but awaits any Promises returned by late values and InheritedOps.
+// Each evaluation has its own stack, so several can run at once, and the items of arrays and objects are evaluated
+// concurrently.
+export function evaluateAsync<Evaluable>(value: Evaluable & Provided<Evaluable>): Promise<Evaluated<Evaluable>>;
+export function evaluateAsync<Evaluable>(
+  value: Evaluable & Provided<Evaluable>,
+  options: EvaluateOptions & { trace: true },
+): Promise<Traced<Evaluated<Evaluable>>>;
+export function evaluateAsync<Evaluable>(
+  value: Evaluable & Provided<Evaluable>,
+  options: EvaluateOptions,
+): Promise<Evaluated<Evaluable> | Traced<Evaluated<Evaluable>>>;
+export async function evaluateAsync<Evaluable>(
+  value: Evaluable,
+  options: EvaluateOptions = {},
+): Promise<Evaluated<Evaluable> | Traced<Evaluated<Evaluable>>> {
+  const outermost = current_context().references === undefined;
+  const context = options_context(options);
+  const evaluated = (await run_in_context_async(context, () =>
+    outermost ? evaluate_in_passes_async(context, () => evaluate_async(value)) : evaluate_async(value),
+  )) as Evaluated<Evaluable>;
+  if (options.unused !== undefined && context.usage !== undefined) report_unused(context.usage, options.unused);
+  // Evaluations within a traced one, such as those of $(), add to its provenance rather than returning their own
+  return options.trace && context.provenance !== undefined
+    ? { value: evaluated, provenance: context.provenance }
+    : evaluated;
+}
+
+// Returns the context to evaluate in with the given options.
+function options_context(options: EvaluateOptions): EvaluationContext {
+  let context = current_context();
+  if (options.trace) context = { ...context, provenance: {} };
+  if (options.unused !== undefined) context = { ...context, usage: new_usage() };
+  if (options.overrides !== undefined) context = { ...context, override_sources: options.overrides };
+  if (options.memoize !== undefined) context = { ...context, memoize: options.memoize };
+  if (options.warn_legacy_ops !== undefined) context = { ...context, warn_legacy_ops: options.warn_legacy_ops };
+  if (options.reveal_secrets !== undefined) context = { ...context, reveal_secrets: options.reveal_secrets };
+  if (context.references === undefined) context = { ...context, references: new_references() };
+  return context;
+}
+
+async function evaluate_async(value: unknown): Promise<unknown> {
+  if (value instanceof Concrete || value instanceof Literal) {
+    return value.value;
+  } else if (value instanceof Secret) {
+    const revealed = await evaluate_async(reveal(value));
+    return current_context().reveal_secrets ? revealed : new Secret(revealed);
+  } else if (value instanceof Function) {
+    const steps = steps_of.get(value as AnyFunction);
+    let result;
+    try {
+      if (steps !== undefined) return concrete_value(await run_steps_async(steps()));
+      result = await value();
+    } catch (error) {
+      throw add_path(error);
+    }
+    return evaluate_async(result);
+  } else if (is_promise(value)) {
+    return evaluate_async(await value);
+  } else if (value instanceof Array) {
+    const offset = take_index_offset();
+    return Promise.all(
+      value.map((item, index) =>
+        run_in_context_async(at_path(offset + index), () => catch_pending_async(() => evaluate_async(item))),
+      ),
+    );
+  } else if (is_self_evaluating(value)) {
+    let result;
+    try {
+      result = value[evaluate_symbol]();
+    } catch (error) {
+      throw add_path(error);
+    }
+    return evaluate_async(result);
+  } else if (value instanceof Map) {
+    const entries = [...value].map(
+      async ([key, item]) =>
+        [
+          key,
+          await run_in_context_async(at_path(map_key_segment(key)), () =>
+            catch_pending_async(() => evaluate_async(item)),
+          ),
+        ] as const,
+    );
+    return new Map(await Promise.all(entries));
+  } else if (value instanceof Set) {
+    const items = [...value].map((item, index) =>
+      run_in_context_async(at_path(index), () => catch_pending_async(() => evaluate_async(item))),
+    );
+    return new Set(await Promise.all(items));
+  } else if (is_plain_object(value)) {
+    const entries = Object.entries(value).map(
+      async ([key, value]) =>
+        [
+          key,
+          await run_in_context_async(at_path(key), () => catch_pending_async(() => evaluate_async(value))),
+        ] as const,
+    );
+    return Object.fromEntries(await Promise.all(entries));
   } else {
-    return value as Evaluated<Evaluable>;
+    return value;
+  }
+}
+
+function is_self_evaluating(value: unknown): value is SelfEvaluating<unknown> {
+  return value instanceof Object && typeof (value as Partial<SelfEvaluating<unknown>>)[evaluate_symbol] === 'function';
+}
+
+// The path segment for the value of a Map key. Keys which aren't strings or numbers are described by String().
+function map_key_segment(key: unknown): string | number {
+  return typeof key === 'string' || typeof key === 'number' ? key : String(key);
+}
+
+function is_promise(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value instanceof Promise ||
+    (value instanceof Object && typeof (value as Record<string, unknown>).then === 'function')
+  );
+}
+
+// Adds the current output path to an error thrown by a late value, unless it already has one.
+function add_path(error: unknown): SpogtanError {
+  return error instanceof SpogtanError ? error : new EvaluationError(error, current_path());
+}
+
+// Late values which need to evaluate other values part way through are written as generators, which yield each value
+// they need evaluated and are sent back its evaluated form. This lets both `evaluate` and `evaluateAsync` run them.
+export type Steps<T> = Generator<unknown, T, unknown>;
+type AnyFunction = (...args: never[]) => unknown;
+const steps_of = new WeakMap<AnyFunction, (inherited?: unknown) => Steps<unknown>>();
+
+const inherited_ops = new WeakSet<AnyFunction>();
+
+// Brands `op` as an InheritedOp, and records its kind for traces.
+function inherited_op<Op extends AnyFunction>(op: Op, kind: OpKind): Op & InheritedOpBrand {
+  inherited_ops.add(op);
+  return tag_op(op, kind) as Op & InheritedOpBrand;
+}
+
+function is_inherited_op(value: unknown): value is InheritedOp<unknown> {
+  return value instanceof Function && inherited_ops.has(value as AnyFunction);
+}
+
+// Before InheritedOps were branded, any function which took exactly one argument was treated as one. When migrating,
+// this warns about Frame values which that rule would have treated differently.
+const warned_legacy_ops = new WeakSet<AnyFunction>();
+
+function warn_legacy_op(parameter: string, frame: Record<string, unknown>, value: unknown, is_op: boolean) {
+  if (!(value instanceof Function) || is_op === (value.length === 1) || warned_legacy_ops.has(value as AnyFunction)) {
+    return;
+  }
+  warned_legacy_ops.add(value as AnyFunction);
+  const source = frame_source(frame);
+  const location = source && ` from ${source.method}() at ${source.call_site ?? '<unknown>'}`;
+  const change = is_op
+    ? "is an InheritedOp which doesn't take exactly one argument, so it used to be treated as a late value"
+    : 'takes one argument but is now treated as a late value, wrap it with $.inherit() if it should be an InheritedOp';
+  console.warn(
+    `Warning: the value of parameter ${parameter}${location ?? ''} ${change} (at ${
+      format_path(current_path()) || '<root>'
+    })`,
+  );
+}
+
+// A value which `evaluate` returns as it is, without calling it or going into it. See `Spogtan.literal`.
+export class Literal<T> {
+  // Makes Literals nominal, so that other objects which have a `value` aren't taken to be one by Evaluated
+  private readonly literal = true;
+
+  constructor(readonly value: T) {}
+}
+
+// Marks `value` as part of the output as it is, like `$.literal`.
+export function literal<F extends (...args: never[]) => unknown>(value: F): Literal<F>;
+export function literal<T>(value: T): Literal<T>;
+export function literal<T>(value: T): Literal<T> {
+  return new Literal(value);
+}
+
+// A value to be evaluated within a different context than the current one, which can be yielded from Steps.
+class InContext {
+  constructor(readonly context: EvaluationContext, readonly value: unknown) {}
+}
+
+// A value which has already been evaluated, which `evaluate` returns as it is rather than going through it again.
+class Concrete {
+  constructor(readonly value: unknown) {}
+}
+
+// The result of looking up a parameter, which is memoized for later lookups with the same stack.
+interface Lookup {
+  value: unknown;
+  // How the value came about, if the evaluation is being traced.
+  steps: TraceStep[] | undefined;
+}
+
+// The Lookups made with each stack, by each Spogtan instance.
+const memos = new WeakMap<StackNode, WeakMap<Record<string, never>, Map<PropertyKey, Lookup>>>();
+
+function memo_of(stack: StackNode | undefined, owner: Record<string, never>): Map<PropertyKey, Lookup> | undefined {
+  if (stack === undefined) return undefined;
+  let owners = memos.get(stack);
+  if (owners === undefined) memos.set(stack, (owners = new WeakMap()));
+  let memo = owners.get(owner);
+  if (memo === undefined) owners.set(owner, (memo = new Map()));
+  return memo;
+}
+
+export function stepped_late_value<T>(steps: () => Steps<T>): () => T {
+  const late_value = () => concrete_value(run_steps(steps()));
+  steps_of.set(late_value, steps);
+  return late_value;
+}
+
+// InheritedOps are given the inherited value when they're run, so they are wrapped separately from late values.
+function stepped_op<Inherited, T>(steps: (inherited: Inherited) => Steps<T>): (inherited: Inherited) => T {
+  const op = (inherited: Inherited) => concrete_value(run_steps(steps(inherited)));
+  steps_of.set(op, steps as (inherited?: unknown) => Steps<unknown>);
+  return op;
+}
+
+// Late values which are called directly, rather than by `evaluate`, return plain values.
+function concrete_value<T>(value: T): T {
+  return value instanceof Concrete ? (value.value as T) : value;
+}
+
+function run_steps<T>(steps: Steps<T>): T {
+  let result = steps.next();
+  while (!result.done) {
+    const step = result.value;
+    result = steps.next(
+      step instanceof InContext ? run_in_context(step.context, () => evaluate_value(step.value)) : evaluate_value(step),
+    );
   }
+  return result.value;
+}
+
+async function run_steps_async<T>(steps: Steps<T>): Promise<T> {
+  let result = steps.next();
+  while (!result.done) {
+    const step = result.value;
+    result = steps.next(
+      step instanceof InContext
+        ? await run_in_context_async(step.context, () => evaluate_async(step.value))
+        : await evaluate_async(step),
+    );
+  }
+  return result.value;
 }
 
 // Returns a late value of merged `items`.
 // Merging for strings and lists means concatenation,
 // and for objects it means combining entries, with later entries taking precedence.
-export function merge<Value extends string | InnerValue[] | Record<string, InnerValue>, InnerValue>(
-  ...items: Evaluable<Value>[]
-) {
-  return (inherited?: Evaluated<Value>): Evaluated<Value> => {
-    const evaluated_items = (inherited !== undefined ? [inherited] : []).concat(evaluate(items) as Evaluated<Value>[]);
-    const first_item = evaluated_items[0];
-    if (typeof first_item === 'string') {
-      return evaluated_items.join('') as Evaluated<Value>;
-    } else if (first_item instanceof Array) {
-      return evaluated_items.flat() as Evaluated<Value>;
-    } else if (typeof first_item === 'object') {
-      return Object.fromEntries(
-        (evaluated_items as Record<string, InnerValue>[]).map((item) => Object.entries(item)).flat(),
-      ) as Evaluated<Value>;
-    } else {
-      throw new Error(
-        `Can't merge values of type ${evaluated_items[0].constructor.name}, must be a string, array or object.`,
+// `merge.delete` removes the key it's set on from a merged object, e.g. merge({ debug: merge.delete }), and
+// `merge.delete_item` removes an item from an array deep merged by key.
+export const merge = Object.assign(
+  function merge<Value extends string | InnerValue[] | Record<string, InnerValue>, InnerValue>(
+    ...items: Evaluable<Value>[]
+  ) {
+    return inherited_op(
+      stepped_op((inherited?: Evaluated<Value>) => merge_steps(items, inherited)),
+      'merge',
+    );
+  },
+  { delete: tombstone, delete_item },
+);
+
+function* merge_steps<Value extends string | InnerValue[] | Record<string, InnerValue>, InnerValue>(
+  items: Evaluable<Value>[],
+  inherited: Evaluated<Value> | undefined,
+): Steps<Evaluated<Value>> {
+  const evaluated_items: Evaluated<Value>[] = inherited !== undefined ? [inherited] : [];
+  // Items of merged arrays are evaluated at the index they will have in the merged array
+  let offset = inherited instanceof Array ? inherited.length : 0;
+  for (const item of items) {
+    const evaluated_item = (yield new InContext(with_index_offset(offset), item)) as Evaluated<Value>;
+    if (evaluated_item instanceof Array) offset += evaluated_item.length;
+    evaluated_items.push(evaluated_item);
+  }
+
+  if (evaluated_items.length === 0) {
+    throw new MergeError('Nothing to merge, merge() must be given at least one item', current_path());
+  }
+  // A merge which includes a secret is secret as a whole
+  if (evaluated_items.some((item) => item instanceof Secret)) {
+    const revealed = evaluated_items.map((item) => (item instanceof Secret ? reveal(item) : item));
+    return new Secret(merge_evaluated(revealed)) as unknown as Evaluated<Value>;
+  }
+  return merge_evaluated(evaluated_items) as Evaluated<Value>;
+}
+
+function merge_evaluated(evaluated_items: unknown[]): unknown {
+  const kind = merge_kind(evaluated_items[0]);
+  if (kind === undefined) {
+    throw new MergeError(
+      `Can't merge values of type ${type_name(evaluated_items[0])}, must be a string, array or object.`,
+      current_path(),
+    );
+  }
+  evaluated_items.forEach((item, index) => {
+    if (merge_kind(item) !== kind) {
+      throw new MergeError(
+        `Can't merge item ${index} of type ${type_name(item)} with items of type ${type_name(evaluated_items[0])}`,
+        current_path(),
       );
     }
-  };
+  });
+
+  // Tombstones which aren't on a key of the merged object have nothing to delete, so they're left out
+  if (kind === 'string') {
+    return evaluated_items.join('');
+  } else if (kind === 'array') {
+    return without_tombstones((evaluated_items as unknown[][]).flat());
+  } else {
+    const merged = Object.fromEntries(
+      (evaluated_items as Record<string, unknown>[]).map((item) => Object.entries(item)).flat(),
+    );
+    for (const key of Object.keys(merged)) {
+      if (merged[key] === tombstone) delete merged[key];
+      else merged[key] = without_tombstones(merged[key]);
+    }
+    return merged;
+  }
+}
+
+// Returns a late value which merges `items` deeply: objects are merged key by key, so that setting one nested field
+// keeps its siblings, and everything else is replaced. Use `deepMerge.with` to merge some paths differently.
+export function deepMerge<Value>(...items: Evaluable<DeepPartial<Value>>[]): InheritedOp<Value> {
+  return deep_merge_op(items, compile_strategies({}));
+}
+
+// Returns a `deepMerge` which uses the given strategies, e.g.
+// deepMerge.with({ strategies: { 'spec.containers': { union_by_key: 'name' } } })(base, patch)
+deepMerge.with = (options: DeepMergeOptions) => {
+  const strategies = compile_strategies(options);
+  return <Value>(...items: Evaluable<DeepPartial<Value>>[]): InheritedOp<Value> => deep_merge_op(items, strategies);
+};
+
+// A partial value for `deepMerge`, where nested keys can also be left out. Objects are told apart from other values
+// by elimination, since interfaces don't extend Record<string, unknown>.
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends string | number | bigint | boolean | symbol | null | undefined | ((...args: never[]) => unknown)
+  ? T
+  : { [K in keyof T]?: DeepPartial<T[K]> };
+
+function deep_merge_op<Value>(items: unknown[], strategies: CompiledStrategies): InheritedOp<Value> {
+  return inherited_op(
+    stepped_op((inherited?: Value) => deep_merge_steps(items, inherited, strategies)),
+    'merge',
+  );
+}
+
+function* deep_merge_steps<Value>(
+  items: unknown[],
+  inherited: Value | undefined,
+  strategies: CompiledStrategies,
+): Steps<Value> {
+  if (items.length === 0 && inherited === undefined) {
+    throw new MergeError('Nothing to merge, deepMerge() must be given at least one item', current_path());
+  }
+  let merged: unknown = inherited;
+  for (const item of items) {
+    merged = deep_merge(merged, yield item, strategies, []);
+  }
+  // A deleted value is the same as one which was never set
+  return (merged === tombstone ? undefined : merged) as Value;
+}
+
+function merge_kind(value: unknown): 'string' | 'array' | 'object' | undefined {
+  if (typeof value === 'string') return 'string';
+  if (value instanceof Array) return 'array';
+  if (is_plain_object(value)) return 'object';
+  return undefined;
 }
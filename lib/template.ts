@@ -0,0 +1,150 @@
+import { current_path } from './context';
+import { SpogtanError } from './errors';
+import { toYAML } from './format';
+import { is_plain_object } from './merge';
+
+// A filter which transforms a value within a template, e.g. `upper` in ${'name | upper'}. It's given the value and
+// any arguments the filter was written with, such as the 2 in ${'config | yaml | indent(2)'}.
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+// The parameter paths which can be used in a template, e.g. 'service' or 'service.port', up to a few levels deep.
+export type ParameterPath<T, Depth extends unknown[] = []> = Depth['length'] extends 4
+  ? never
+  : {
+      [K in keyof T & string]:
+        | K
+        | (NonNullable<T[K]> extends Record<string, unknown>
+            ? `${K}.${ParameterPath<NonNullable<T[K]>, [...Depth, unknown]>}`
+            : never);
+    }[keyof T & string];
+
+// What can be placed in a template: a parameter path or '$inherited', optionally followed by filters, e.g.
+// ${'service.name | slug'}, or a late value which is evaluated, e.g. ${() => $('year') + 1}
+export type TemplateExpression<Parameters> =
+  | ParameterPath<Parameters>
+  | '$inherited'
+  | `${ParameterPath<Parameters> | '$inherited'} | ${string}`
+  | (() => unknown);
+
+// A parsed parameter path and filters from a template.
+export interface ParsedExpression {
+  source: string;
+  // The parameter or '$inherited', followed by the properties to get from its value.
+  path: string[];
+  filters: { name: string; args: unknown[] }[];
+}
+
+const filters = new Map<string, TemplateFilter>([
+  ['upper', (value) => to_string(value).toUpperCase()],
+  ['lower', (value) => to_string(value).toLowerCase()],
+  [
+    'slug',
+    (value) =>
+      to_string(value)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, ''),
+  ],
+  ['json', (value) => JSON.stringify(value)],
+  ['yaml', (value) => toYAML(value).replace(/\n$/, '')],
+  // Indents every line after the first, which is placed by the template itself
+  ['indent', (value, spaces = 2) => to_string(value).replace(/\n(?!\n|$)/g, '\n' + ' '.repeat(Number(spaces)))],
+  ['default', (value, fallback = '') => (value === undefined || value === null ? fallback : value)],
+]);
+
+// Adds a filter which templates can use by `name`, e.g. registerFilter('quote', (value) => `"${value}"`)
+export function register_filter(name: string, filter: TemplateFilter): void {
+  if (!/^[A-Za-z_][\w]*$/.test(name)) throw new Error(`Invalid template filter name ${JSON.stringify(name)}`);
+  filters.set(name, filter);
+}
+
+// Parses an expression such as 'service.port | default(80)'. Syntax errors are thrown straight away, when the
+// template is created, while unknown filters are only reported when it's evaluated since they may be registered later.
+export function parse_expression(source: string): ParsedExpression {
+  const [path, ...filter_sources] = split_outside_quotes(source, '|').map((part) => part.trim());
+  if (!/^[\w$-]+(?:\.[\w$-]+)*$/.test(path)) throw new Error(`Invalid parameter path in template: ${source}`);
+  return {
+    source,
+    path: path.split('.'),
+    filters: filter_sources.map((filter) => {
+      const match = /^([A-Za-z_]\w*)(?:\((.*)\))?$/s.exec(filter);
+      if (match === null) throw new Error(`Invalid filter ${filter} in template: ${source}`);
+      const args =
+        match[2] === undefined ? [] : split_outside_quotes(match[2], ',').map((arg) => parse_arg(arg, source));
+      return { name: match[1], args };
+    }),
+  };
+}
+
+// Whether the expression gives a value to use when its parameter isn't set, so that it doesn't need to be.
+export function has_default(expression: ParsedExpression): boolean {
+  return expression.filters.some((filter) => filter.name === 'default');
+}
+
+// Returns the value at the rest of the expression's path within `value`, the value of its first `start` segments.
+export function value_at_path(value: unknown, expression: ParsedExpression, start = 1): unknown {
+  for (let s = start; s < expression.path.length; ++s) {
+    if (typeof value !== 'object' || value === null || !(expression.path[s] in value)) {
+      if (has_default(expression)) return undefined;
+      const parent = expression.path.slice(0, s).join('.');
+      throw new SpogtanError(
+        `Template path ${expression.path.join('.')} doesn't exist, ${parent} has no property ${expression.path[s]}`,
+        current_path(),
+      );
+    }
+    value = (value as Record<string, unknown>)[expression.path[s]];
+  }
+  return value;
+}
+
+export function apply_filters(value: unknown, expression: ParsedExpression): unknown {
+  for (const { name, args } of expression.filters) {
+    const filter = filters.get(name);
+    if (filter === undefined) {
+      throw new SpogtanError(
+        `Unknown template filter ${name} in ${expression.source}, ` +
+          `choose one of ${[...filters.keys()].join(', ')} or add it with registerFilter`,
+        current_path(),
+      );
+    }
+    value = filter(value, ...args);
+  }
+  return value;
+}
+
+// Converts a value to how it's written in a template. Objects and arrays are written as JSON, rather than as
+// [object Object].
+export function to_string(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  if (value instanceof Array || is_plain_object(value)) return JSON.stringify(value);
+  return String(value);
+}
+
+// Splits `string` on `separator`, except where it's within quotes.
+function split_outside_quotes(string: string, separator: string): string[] {
+  const parts = [''];
+  let quote: string | undefined;
+  for (const character of string) {
+    if (quote !== undefined) {
+      if (character === quote) quote = undefined;
+    } else if (character === '"' || character === "'") {
+      quote = character;
+    } else if (character === separator) {
+      parts.push('');
+      continue;
+    }
+    parts[parts.length - 1] += character;
+  }
+  return parts;
+}
+
+// Filter arguments are numbers, quoted strings, true, false or null.
+function parse_arg(arg: string, source: string): unknown {
+  const trimmed = arg.trim();
+  if (/^'.*'$/s.test(trimmed)) return trimmed.slice(1, -1);
+  if (/^".*"$/s.test(trimmed)) return JSON.parse(trimmed);
+  if (trimmed === 'true' || trimmed === 'false' || trimmed === 'null') return JSON.parse(trimmed);
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  throw new Error(`Invalid filter argument ${trimmed} in template: ${source}, strings must be quoted`);
+}
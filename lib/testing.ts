@@ -0,0 +1,295 @@
+import * as util from 'util';
+import { DiffOptions, diff, format_diff } from './diff';
+import { MissingParameterError, SpogtanError } from './errors';
+import { format_path } from './path';
+import { JSONSchema, ObjectSchema, Schema } from './schema';
+import { Secret } from './secret';
+import { CallableSpogtan, EvaluateOptions, Evaluated, Frame, evaluate, evaluateAsync } from './spogtan';
+import { TraceStep } from './trace';
+
+// Helpers for testing components: a Harness which renders them under a Frame and checks how they use their
+// parameters, property-based checks with Frames generated from a parameter schema, and Jest matchers which describe
+// mismatches by output path.
+
+// Thrown by a Harness when a component doesn't behave as expected.
+export class ComponentTestError extends SpogtanError {
+  constructor(message: string) {
+    super(message, []);
+  }
+}
+
+// Thrown by `check_frames` when a component throws for a Frame which matches its parameter schema. `frame` is the
+// simplest such Frame found, and `seed` generates the same Frames again.
+export class FrameCheckError extends ComponentTestError {
+  constructor(readonly frame: Record<string, unknown>, readonly seed: number, readonly cause: unknown) {
+    super(`The component threw for a valid Frame (seed ${seed}):\n  ${inspect(frame)}\n${describe_error(cause)}`);
+  }
+}
+
+export interface CheckFramesOptions {
+  // How many Frames to generate. Defaults to 100.
+  runs?: number;
+  // Generates the same Frames each time it's given, e.g. the seed of an earlier failure. Random by default.
+  seed?: number;
+  // Parameters to set rather than generate, e.g. those which the schema can't describe well enough.
+  frame?: Record<string, unknown>;
+}
+
+// Renders and checks the components written against `$`, each under a Frame which is pushed outside of them, as a
+// caller's `with` would be.
+export class Harness<Parameters> {
+  constructor(private readonly $: CallableSpogtan<Parameters>) {}
+
+  // Evaluates `value` under `frame`.
+  render<T>(value: T, frame: Frame<Parameters> = {}, options: EvaluateOptions = {}): Evaluated<T> {
+    return evaluate(this.$.with(frame, value) as unknown, options) as Evaluated<T>;
+  }
+
+  render_async<T>(value: T, frame: Frame<Parameters> = {}, options: EvaluateOptions = {}): Promise<Evaluated<T>> {
+    return evaluateAsync(this.$.with(frame, value) as unknown, options) as Promise<Evaluated<T>>;
+  }
+
+  // Checks that rendering `value` under `frame` throws a MissingParameterError for `parameter`.
+  expect_missing<T>(value: T, parameter: keyof Parameters & string, frame: Frame<Parameters> = {}): void {
+    const failure = missing_failure(() => this.render(value, frame), parameter);
+    if (failure !== undefined) throw new ComponentTestError(failure);
+  }
+
+  // Checks that setting `parameter` to `to` outside of `value` sets it everywhere `value` reads it, rather than being
+  // replaced or modified by a Frame within it, and returns what `value` renders to. Defaults within `value` give way
+  // to it, but Frames which set the parameter outright, or merge into it, don't.
+  expect_overridable<T, Param extends keyof Parameters & string>(
+    value: T,
+    parameter: Param,
+    to: Parameters[Param],
+    frame: Frame<Parameters> = {},
+  ): Evaluated<T> {
+    const overridden = { ...frame, [parameter]: to } as Frame<Parameters>;
+    const traced = this.render(value, overridden, { trace: true }) as { value: Evaluated<T>; provenance: unknown };
+    const provenance = traced.provenance as Record<string, { parameter: string; steps: TraceStep[] }[]>;
+    const lookups = Object.entries(provenance).flatMap(([path, traces]) =>
+      traces.filter((trace) => trace.parameter === parameter).map((trace) => ({ path, steps: trace.steps })),
+    );
+    if (lookups.length === 0) throw new ComponentTestError(`${parameter} was set to ${inspect(to)}, but never read`);
+    for (const { path, steps } of lookups) {
+      // The harness's Frame is the outermost one, so it's the first step of every lookup
+      const step = steps.slice(1).find((step) => step.kind !== 'default');
+      if (step === undefined) continue;
+      const how = step.kind === 'value' ? `set to ${inspect(step.value)}` : `modified by a ${step.kind}`;
+      const where = step.source && ` from ${step.source.method}() at ${step.source.call_site ?? '<unknown>'}`;
+      throw new ComponentTestError(
+        `${parameter} was set to ${inspect(to)}, but it was ${how}${where ?? ''} within the component ` +
+          `(at ${path || '<root>'})`,
+      );
+    }
+    return traced.value;
+  }
+
+  // Checks that what `value` renders to under `frame` matches `schema`, and returns it.
+  expect_schema<T>(value: T, schema: Schema<unknown>, frame: Frame<Parameters> = {}): Evaluated<T> {
+    const rendered = this.render(value, frame);
+    const failure = schema_failure(rendered, schema);
+    if (failure !== undefined) throw new ComponentTestError(failure);
+    return rendered;
+  }
+
+  // Renders `value` under Frames generated from `schema`, the schema of the parameters it reads, and checks that it
+  // never throws. A FrameCheckError reports the first Frame which it throws for, after simplifying it.
+  check_frames<T>(value: T, schema: ObjectSchema<unknown>, options: CheckFramesOptions = {}): void {
+    const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const random = seeded_random(seed);
+    const fixed = options.frame ?? {};
+    const render_error = (frame: Record<string, unknown>) => {
+      try {
+        this.render(value, { ...frame, ...fixed } as Frame<Parameters>);
+        return undefined;
+      } catch (error) {
+        return { error };
+      }
+    };
+    for (let run = 0; run < (options.runs ?? 100); run++) {
+      const frame = generate_frame(schema, random, Object.keys(fixed));
+      const failed = render_error(frame);
+      if (failed === undefined) continue;
+      // Simplifies the parameters one at a time, keeping each simplification which still throws, until none do
+      let simplest = frame;
+      let cause = failed.error;
+      for (let simplified = true; simplified; ) {
+        simplified = false;
+        for (const parameter of Object.keys(simplest)) {
+          for (const simpler of simplifications(schema.properties[parameter], simplest[parameter])) {
+            const candidate = { ...simplest, [parameter]: simpler };
+            if (simpler === omitted) delete candidate[parameter];
+            const still_failed = render_error(candidate);
+            if (still_failed === undefined) continue;
+            [simplest, cause, simplified] = [candidate, still_failed.error, true];
+            break;
+          }
+        }
+      }
+      throw new FrameCheckError({ ...simplest, ...fixed }, seed, cause);
+    }
+  }
+}
+
+export function harness<Parameters>($: CallableSpogtan<Parameters>): Harness<Parameters> {
+  return new Harness($);
+}
+
+interface MatcherContext {
+  isNot: boolean;
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+// Jest matchers, for expect.extend(matchers). Each evaluates what it's given, so it can be given a component.
+export const matchers = {
+  // Compares what `received` evaluates to with `expected`, and describes each difference by its output path.
+  toEvaluateTo(this: MatcherContext, received: unknown, expected: unknown, options: DiffOptions = {}): MatcherResult {
+    const changes = diff(expected, evaluate(received), options);
+    return {
+      pass: changes.length === 0,
+      message: () =>
+        changes.length === 0
+          ? `Expected the value not to evaluate to ${inspect(expected)}`
+          : `Expected the value to evaluate to what was expected (- expected, + received):\n${format_diff(changes)}`,
+    };
+  },
+
+  toThrowMissingParameter(this: MatcherContext, received: unknown, parameter: string): MatcherResult {
+    const failure = missing_failure(() => evaluate(received), parameter);
+    return {
+      pass: failure === undefined,
+      message: () => failure ?? `Expected no MissingParameterError for ${parameter}`,
+    };
+  },
+
+  toMatchSchema(this: MatcherContext, received: unknown, schema: Schema<unknown>): MatcherResult {
+    const failure = schema_failure(evaluate(received), schema);
+    return {
+      pass: failure === undefined,
+      message: () => failure ?? 'Expected the value not to match the schema',
+    };
+  },
+};
+
+function missing_failure(render: () => unknown, parameter: string): string | undefined {
+  try {
+    render();
+  } catch (error) {
+    if (error instanceof MissingParameterError && error.parameter === parameter) return undefined;
+    return `Expected a MissingParameterError for ${parameter}, but got ${describe_error(error)}`;
+  }
+  return `Expected a MissingParameterError for ${parameter}, but the value evaluated`;
+}
+
+function schema_failure(value: unknown, schema: Schema<unknown>): string | undefined {
+  const issues = schema.check(value);
+  if (issues.length === 0) return undefined;
+  const lines = issues.map((issue) => `\n  ${format_path(issue.path) || '<root>'}: ${issue.message}`);
+  return `The value doesn't match the schema:${lines.join('')}`;
+}
+
+// Marks a parameter which a simplification leaves out of the Frame.
+const omitted = Symbol('omitted');
+
+// Generates a Frame with a value for each required parameter in `schema`, and for about half of the optional ones,
+// except for those in `skip`. Values are generated from the JSON Schema of each parameter, and then checked against
+// the parameter's schema, so that refinements are met where possible.
+function generate_frame(schema: ObjectSchema<unknown>, random: () => number, skip: string[]): Record<string, unknown> {
+  const frame: Record<string, unknown> = {};
+  for (const [parameter, property] of Object.entries(schema.properties)) {
+    if (skip.includes(parameter) || (property.optional && random() < 0.5)) continue;
+    frame[parameter] = generate_valid(parameter, property, random);
+  }
+  return frame;
+}
+
+function generate_valid(parameter: string, schema: Schema<unknown>, random: () => number): unknown {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const value = generate(schema.json_schema(), random, 0);
+    if (schema.check(value).length === 0) return value;
+  }
+  throw new ComponentTestError(
+    `Couldn't generate a valid value for parameter ${parameter}, give it one with the \`frame\` option`,
+  );
+}
+
+const sample_strings = ['', 'a', 'web', 'with spaces', 'yes', 'null', '0755', 'multi\nline', 'ünïcødé', '${x}'];
+const sample_numbers = [0, 1, -1, 0.5, 1e9, -(2 ** 31)];
+
+function generate(json: JSONSchema, random: () => number, depth: number): unknown {
+  const pick = <T>(values: T[]) => values[Math.floor(random() * values.length)];
+  if (json.writeOnly === true) return new Secret(generate({ ...json, writeOnly: undefined }, random, depth));
+  if (json.enum instanceof Array) return pick(json.enum);
+  switch (json.type) {
+    case 'string':
+      return random() < 0.5
+        ? pick(sample_strings)
+        : random()
+            .toString(36)
+            .slice(2, 2 + Math.ceil(random() * 10));
+    case 'number':
+      return random() < 0.5 ? pick(sample_numbers) : Math.floor(random() * 2000) - 1000;
+    case 'boolean':
+      return random() < 0.5;
+    case 'array': {
+      // Arrays get shorter as they nest, so that generated values stay small
+      const length = Math.floor(random() * Math.max(4 - depth, 1));
+      return Array.from({ length }, () => generate(json.items as JSONSchema, random, depth + 1));
+    }
+    case 'object': {
+      const properties = (json.properties ?? {}) as Record<string, JSONSchema>;
+      const required = (json.required ?? []) as string[];
+      return Object.fromEntries(
+        Object.entries(properties)
+          .filter(([key]) => required.includes(key) || random() < 0.5)
+          .map(([key, property]) => [key, generate(property, random, depth + 1)]),
+      );
+    }
+    default:
+      throw new ComponentTestError(`Can't generate values for the JSON Schema ${inspect(json)}`);
+  }
+}
+
+// Simpler values for a parameter than `value`, simplest first, which still match its schema.
+function simplifications(schema: Schema<unknown>, value: unknown): unknown[] {
+  const simplest = simplest_value(schema.json_schema());
+  return [...(schema.optional ? [omitted] : []), simplest].filter(
+    (simpler) => simpler === omitted || (!util.isDeepStrictEqual(simpler, value) && schema.check(simpler).length === 0),
+  );
+}
+
+function simplest_value(json: JSONSchema): unknown {
+  if (json.writeOnly === true) return new Secret(simplest_value({ ...json, writeOnly: undefined }));
+  if (json.enum instanceof Array) return json.enum[0];
+  if (json.type === 'object') {
+    const properties = (json.properties ?? {}) as Record<string, JSONSchema>;
+    const required = (json.required ?? []) as string[];
+    return Object.fromEntries(required.map((key) => [key, simplest_value(properties[key])]));
+  }
+  return { string: '', number: 0, boolean: false, array: [] }[json.type as string];
+}
+
+// A small, seedable pseudorandom number generator (mulberry32), so that failures can be reproduced.
+function seeded_random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+function describe_error(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
+
+function inspect(value: unknown): string {
+  return util.inspect(value, { depth: 4, breakLength: Infinity });
+}
@@ -0,0 +1,146 @@
+import * as path from 'path';
+import * as util from 'util';
+import { current_context, current_path } from './context';
+import { Path, format_path, parse_path } from './path';
+
+// The kinds of InheritedOps that spogtan creates. Any other InheritedOp is just an 'op'.
+export type OpKind = 'default' | 'merge' | 'template' | 'op';
+
+// The method which pushed a Frame onto the stack, and where in the user's code it was called.
+export interface FrameSource {
+  method: 'with' | 'wrap' | 'defaults' | 'overlay' | 'with_overrides';
+  call_site: string | undefined;
+}
+
+// How a single Frame contributed to the value of a parameter.
+export interface TraceStep {
+  // 'value' if the Frame set the parameter outright, otherwise the kind of InheritedOp which modified it.
+  kind: 'value' | OpKind;
+  source: FrameSource | undefined;
+  // The value that the Frame set, for 'value' steps.
+  value?: unknown;
+  // The concrete value that an InheritedOp was given.
+  inherited?: unknown;
+}
+
+// A lookup of `parameter`, with a step for each Frame which set it, outermost first.
+export interface ParameterTrace {
+  parameter: string;
+  steps: TraceStep[];
+}
+
+// Every parameter lookup made during an evaluation, keyed by the output path it was made at.
+export type Provenance = Record<string, ParameterTrace[]>;
+
+export interface Traced<T> {
+  value: T;
+  provenance: Provenance;
+}
+
+const op_kinds = new WeakMap<(...args: never[]) => unknown, OpKind>();
+const frame_sources = new WeakMap<Record<string, unknown>, { method: FrameSource['method']; error: Error }>();
+
+// Records the kind of an InheritedOp, so that traces can say where a value came from.
+export function tag_op<Op extends (...args: never[]) => unknown>(op: Op, kind: OpKind): Op {
+  op_kinds.set(op, kind);
+  return op;
+}
+
+export function op_kind(op: (...args: never[]) => unknown): OpKind {
+  return op_kinds.get(op) ?? 'op';
+}
+
+// Remembers where `frame` was created. The stack trace is captured now but only formatted if it's needed.
+// A Frame that is passed to several methods keeps the source where it was first seen.
+// Frames which are created later than the call that introduces them can pass in an `error` captured at that call.
+export function record_source(
+  frame: Record<string, unknown>,
+  method: FrameSource['method'],
+  error: Error = new Error(),
+): void {
+  if (!frame_sources.has(frame)) frame_sources.set(frame, { method, error });
+}
+
+// Gives `copy` the source of the Frame it was copied from.
+export function copy_source(frame: Record<string, unknown>, copy: Record<string, unknown>): void {
+  const source = frame_sources.get(frame);
+  if (source !== undefined) frame_sources.set(copy, source);
+}
+
+export function frame_source(frame: Record<string, unknown>): FrameSource | undefined {
+  const source = frame_sources.get(frame);
+  return source && { method: source.method, call_site: call_site(source.error) };
+}
+
+// Files which are part of spogtan, and so are skipped when looking for the call site in the user's code.
+const library_files = [
+  __dirname + path.sep,
+  path.join(__dirname, '..', 'index.js:'),
+  path.join(__dirname, '..', 'index.ts:'),
+];
+
+// Returns the location of the first stack frame outside of spogtan, e.g. examples/movies.ts:60:3
+function call_site(error: Error): string | undefined {
+  for (const line of (error.stack ?? '').split('\n').slice(1)) {
+    const location = /\(?([^\s()]+:\d+:\d+)\)?$/.exec(line.trim())?.[1];
+    if (location === undefined || library_files.some((file) => location.startsWith(file))) continue;
+    return location.startsWith(process.cwd() + path.sep) ? path.relative(process.cwd(), location) : location;
+  }
+  return undefined;
+}
+
+export function is_tracing(): boolean {
+  return current_context().provenance !== undefined;
+}
+
+// Records a parameter lookup at the current output path, if the current evaluation is being traced.
+export function record_trace(trace: ParameterTrace): void {
+  const provenance = current_context().provenance;
+  if (provenance === undefined) return;
+  (provenance[format_path(current_path())] ??= []).push(trace);
+}
+
+// Describes how the value at `output_path` came about, including the parameters looked up within it.
+export function explain(traced: Traced<unknown>, output_path: string): string {
+  const lines = [`${output_path || '<root>'} = ${inspect(value_at(traced.value, parse_path(output_path)))}`];
+  for (const [lookup_path, traces] of Object.entries(traced.provenance)) {
+    if (!is_within(lookup_path, output_path)) continue;
+    for (const trace of traces) {
+      const location = lookup_path === output_path ? '' : ` (at ${lookup_path})`;
+      lines.push(`  ${trace.parameter}${location}:`);
+      trace.steps.forEach((step, index) => lines.push(`    ${index + 1}. ${describe_step(step)}`));
+    }
+  }
+  if (lines.length === 1) lines.push('  No parameters were looked up here.');
+  return lines.join('\n');
+}
+
+function describe_step(step: TraceStep): string {
+  const kind =
+    step.kind === 'value'
+      ? `value ${step.value instanceof Function ? '<late value>' : inspect(step.value)}`
+      : `${step.kind} of ${inspect(step.inherited)}`;
+  if (step.source === undefined) return kind;
+  return `${kind} from ${step.source.method}() at ${step.source.call_site ?? '<unknown>'}`;
+}
+
+function inspect(value: unknown): string {
+  return util.inspect(value, { depth: 4, breakLength: Infinity });
+}
+
+function is_within(lookup_path: string, output_path: string): boolean {
+  if (output_path === '') return true;
+  return (
+    lookup_path === output_path ||
+    lookup_path.startsWith(output_path + '.') ||
+    lookup_path.startsWith(output_path + '[')
+  );
+}
+
+function value_at(value: unknown, path: Path): unknown {
+  return path.reduce(
+    (current, segment) =>
+      current === null || current === undefined ? undefined : (current as Record<string | number, unknown>)[segment],
+    value,
+  );
+}
@@ -0,0 +1,102 @@
+import { current_context } from './context';
+import { UnusedParameterError } from './errors';
+import { closest, override_origins } from './overrides';
+import { frame_source } from './trace';
+
+// Which Frame keys were set and read during an evaluation, when `evaluate` is given `unused`.
+export interface Usage {
+  frames: Map<Record<string, unknown>, FrameUsage>;
+  // The parameters each Spogtan instance looked up, which typos are compared against.
+  looked_up: Map<unknown, Set<string>>;
+}
+
+interface FrameUsage {
+  owner: unknown;
+  override: boolean;
+  // The keys which lookups found in this Frame. A key is used if its value was the parameter's value, or was given to
+  // an InheritedOp. Otherwise, it was shadowed by the Frame in `shadowed_by`.
+  read: Map<string, { used: boolean; shadowed_by: Record<string, unknown> | undefined }>;
+}
+
+// A parameter which was set by a Frame, but whose value never made it into the output.
+export interface UnusedParameter {
+  parameter: string;
+  // Where it was set, e.g. `with() at config.ts:12:3`, or `--set replicas=3` for an override.
+  origin: string;
+  // Where the override which replaced it before it could be read was set, if that's why it's unused.
+  shadowed_by?: string;
+  // A parameter which was looked up and has a similar name, if this looks like a typo of it.
+  did_you_mean?: string;
+}
+
+export function new_usage(): Usage {
+  return { frames: new Map(), looked_up: new Map() };
+}
+
+// Records that `frame` was pushed onto `owner`'s stack, if the current evaluation is recording usage.
+export function record_frame(owner: unknown, frame: Record<string, unknown>, override: boolean): void {
+  const usage = current_context().usage;
+  if (usage !== undefined && !usage.frames.has(frame)) usage.frames.set(frame, { owner, override, read: new Map() });
+}
+
+export function is_recording_usage(): boolean {
+  return current_context().usage !== undefined;
+}
+
+// Records a lookup of `parameter` by `owner`, given the Frames which set it, outermost first, and whether each one set
+// it to an InheritedOp.
+export function record_lookup(owner: unknown, parameter: string, setters: [Record<string, unknown>, boolean][]): void {
+  const usage = current_context().usage;
+  if (usage === undefined) return;
+  if (!usage.looked_up.has(owner)) usage.looked_up.set(owner, new Set());
+  usage.looked_up.get(owner)?.add(parameter);
+
+  setters.forEach(([frame], index) => {
+    const read = usage.frames.get(frame)?.read;
+    if (read === undefined) return;
+    const next = setters[index + 1];
+    // A value is given to the next Frame's InheritedOp, if there is one, and is otherwise replaced by it
+    const used = next === undefined || next[1];
+    const previous = read.get(parameter);
+    if (previous === undefined || (!previous.used && used)) {
+      read.set(parameter, { used, shadowed_by: used ? undefined : next[0] });
+    }
+  });
+}
+
+// Returns the parameters which were set but never read, and the overrides which were always shadowed by other
+// overrides before anything read them.
+export function unused_parameters(usage: Usage): UnusedParameter[] {
+  const unused: UnusedParameter[] = [];
+  for (const [frame, { owner, override, read }] of usage.frames) {
+    const origins = override_origins(frame);
+    for (const parameter of Object.keys(frame)) {
+      const origin = origins?.set.get(parameter) ?? describe_source(frame);
+      const lookup = read.get(parameter);
+      if (lookup === undefined) {
+        const looked_up = [...(usage.looked_up.get(owner) ?? [])].filter((other) => other !== parameter);
+        unused.push({ parameter, origin, did_you_mean: closest(parameter, looked_up) });
+      } else if (override && !lookup.used && lookup.shadowed_by !== undefined) {
+        const shadowed_by =
+          override_origins(lookup.shadowed_by)?.set.get(parameter) ?? describe_source(lookup.shadowed_by);
+        unused.push({ parameter, origin, shadowed_by });
+      }
+    }
+    unused.push(...(origins?.shadowed ?? []));
+  }
+  return unused;
+}
+
+// Warns about or throws for unused parameters, as given by the `unused` option of `evaluate`.
+export function report_unused(usage: Usage, unused: 'warn' | 'error'): void {
+  const parameters = unused_parameters(usage);
+  if (parameters.length === 0) return;
+  const error = new UnusedParameterError(parameters);
+  if (unused === 'error') throw error;
+  console.warn(`Warning: ${error.message}`);
+}
+
+function describe_source(frame: Record<string, unknown>): string {
+  const source = frame_source(frame);
+  return source === undefined ? 'a Frame' : `${source.method}() at ${source.call_site ?? '<unknown>'}`;
+}
@@ -0,0 +1,185 @@
+import { spogtan } from './index';
+import { toYAML } from './format';
+import {
+  $prometheus,
+  alerting_rule,
+  recording_rule,
+  rule_group,
+  scrape_config,
+  route,
+  rules_file,
+  prometheus_config,
+  alertmanager_config,
+  checkRules,
+  PrometheusCheckError,
+} from './prometheus';
+
+test('the same alert is made for each service, and written as a rules file', () => {
+  const $ = $prometheus.extend<{ service: string; threshold: number }>();
+  const error_rate = alerting_rule({
+    alert: 'HighErrorRate',
+    expr: () => `job:errors:rate5m{job="${$('service')}"} > ${$('threshold')}`,
+    for: '10m',
+    labels: { service: $.get('service') },
+    annotations: { summary: () => `${$('service')} is failing` },
+  });
+  const rules = rules_file([
+    rule_group({
+      group: 'services',
+      interval: '1m',
+      severity: 'page',
+      rules: [
+        recording_rule({ record: 'job:errors:rate5m', expr: 'sum by (job) (rate(errors_total[5m]))' }),
+        ...$.each('service', ['api', 'web'], error_rate, {
+          frame: ({ service }) => ({ threshold: service === 'api' ? 0.01 : 0.05 }),
+        }),
+      ],
+    }),
+  ]);
+  expect(toYAML(spogtan.evaluate(rules))).toBe(
+    [
+      'groups:',
+      '  - name: services',
+      '    interval: 1m',
+      '    rules:',
+      '      - record: job:errors:rate5m',
+      '        expr: sum by (job) (rate(errors_total[5m]))',
+      '      - alert: HighErrorRate',
+      '        expr: job:errors:rate5m{job="api"} > 0.01',
+      '        for: 10m',
+      '        labels:',
+      '          service: api',
+      '          severity: page',
+      '        annotations:',
+      '          summary: api is failing',
+      '      - alert: HighErrorRate',
+      '        expr: job:errors:rate5m{job="web"} > 0.05',
+      '        for: 10m',
+      '        labels:',
+      '          service: web',
+      '          severity: page',
+      '        annotations:',
+      '          summary: web is failing',
+      '',
+    ].join('\n'),
+  );
+});
+
+test('rules files are checked like promtool does', () => {
+  const up = alerting_rule({ alert: 'Down', expr: 'up == 0' });
+  const rules = rules_file([
+    rule_group({ group: 'a', rules: [up, up, recording_rule({ record: 'bad-name', expr: 'up' })] }),
+    rule_group({
+      group: 'a',
+      interval: '5 minutes',
+      rules: [alerting_rule({ alert: 'Slow', expr: 'x', labels: { __bad: 'x' } })],
+    }),
+  ]);
+  expect(() => spogtan.evaluate({ rules })).toThrow(
+    new PrometheusCheckError(
+      [
+        { path: ['groups', 1], message: "there's more than one group a" },
+        { path: ['groups', 0, 'rules', 1], message: "there's more than one rule Down" },
+        { path: ['groups', 0, 'rules', 2, 'record'], message: "bad-name isn't a valid metric name" },
+        { path: ['groups', 1, 'interval'], message: '"5 minutes" isn\'t a valid duration, e.g. 1h30m or 15s' },
+        { path: ['groups', 1, 'rules', 0, 'labels', '__bad'], message: "__bad isn't a valid label name" },
+      ],
+      ['rules'],
+    ),
+  );
+  expect(() => checkRules({ groups: [{ name: 'b', rules: [{ alert: 'X', expr: ' ' }] }] })).toThrow(
+    "Prometheus config check failed\n  groups[0].rules[0].expr: expr can't be empty",
+  );
+  expect(() =>
+    checkRules({ groups: [{ name: 'b', interval: '0', rules: [{ alert: 'X', expr: 'up', for: '0' }] }] }),
+  ).not.toThrow();
+});
+
+test('scrape configs and Alertmanager routes', () => {
+  const config = prometheus_config({
+    global: { scrape_interval: '15s' },
+    scrape_configs: [
+      scrape_config({ job: 'api', targets: ['api:9090'], labels: { team: 'platform' } }),
+      scrape_config({ job: 'web', targets: ['web:9090'], metrics_path: '/stats' }),
+    ],
+  });
+  expect(spogtan.evaluate(config).scrape_configs).toEqual([
+    { job_name: 'api', static_configs: [{ targets: ['api:9090'], labels: { team: 'platform' } }] },
+    { job_name: 'web', metrics_path: '/stats', static_configs: [{ targets: ['web:9090'] }] },
+  ]);
+
+  const alertmanager = (receiver: string) =>
+    alertmanager_config({
+      route: route({ receiver: 'default', group_by: ['alertname'], group_wait: '30s' }, [
+        route({ receiver, matchers: ['severity="page"'] }),
+      ]),
+      receivers: [{ name: 'default' }, { name: 'pager', pagerduty_configs: [{ routing_key: 'key' }] }],
+    });
+  expect(spogtan.evaluate(alertmanager('pager')).route).toEqual({
+    receiver: 'default',
+    group_by: ['alertname'],
+    group_wait: '30s',
+    routes: [{ receiver: 'pager', matchers: ['severity="page"'] }],
+  });
+  expect(() => spogtan.evaluate(alertmanager('pagr'))).toThrow(
+    "Prometheus config check failed\n  route.routes[0].receiver: there's no receiver called pagr",
+  );
+});
+
+test('async values are checked once they are awaited', async () => {
+  const pager = async () => route({ receiver: 'pager' });
+  const rules = rules_file([
+    async () => rule_group({ group: 'a', interval: '0', rules: [alerting_rule({ alert: 'Down', expr: 'up == 0' })] }),
+    rule_group({
+      group: async () => 'b',
+      rules: async () => [
+        alerting_rule({ alert: async () => 'Slow', expr: async () => 'latency > 1', for: async () => '5m' }),
+        recording_rule({ record: async () => 'job:up:sum', expr: async () => 'sum by (job) (up)' }),
+      ],
+    }),
+  ]);
+  const config = prometheus_config({
+    scrape_configs: [
+      async () => scrape_config({ job: 'api', targets: ['api:9090'] }),
+      scrape_config({ job: async () => 'web', targets: async () => ['web:9090'], scrape_interval: async () => '0' }),
+    ],
+  });
+  const alertmanager = alertmanager_config({
+    route: route({ receiver: async () => 'default' }, [pager]),
+    receivers: [{ name: 'default' }, { name: 'pager' }],
+  });
+  expect(await spogtan.evaluateAsync({ rules, config, alertmanager })).toEqual({
+    rules: {
+      groups: [
+        { name: 'a', interval: '0', rules: [{ alert: 'Down', expr: 'up == 0' }] },
+        {
+          name: 'b',
+          rules: [
+            { alert: 'Slow', expr: 'latency > 1', for: '5m' },
+            { record: 'job:up:sum', expr: 'sum by (job) (up)' },
+          ],
+        },
+      ],
+    },
+    config: {
+      scrape_configs: [
+        { job_name: 'api', static_configs: [{ targets: ['api:9090'] }] },
+        { job_name: 'web', scrape_interval: '0', static_configs: [{ targets: ['web:9090'] }] },
+      ],
+    },
+    alertmanager: {
+      route: { receiver: 'default', routes: [{ receiver: 'pager' }] },
+      receivers: [{ name: 'default' }, { name: 'pager' }],
+    },
+  });
+  await expect(
+    spogtan.evaluateAsync(
+      alertmanager_config({ route: route({ receiver: 'default' }, [pager]), receivers: [{ name: 'default' }] }),
+    ),
+  ).rejects.toThrow("Prometheus config check failed\n  route.routes[0].receiver: there's no receiver called pager");
+  await expect(
+    spogtan.evaluateAsync(
+      rules_file([rule_group({ group: 'a', rules: [alerting_rule({ alert: 'X', expr: async () => ' ' })] })]),
+    ),
+  ).rejects.toThrow("Prometheus config check failed\n  groups[0].rules[0].expr: expr can't be empty");
+});
@@ -0,0 +1,29 @@
+export {
+  $prometheus,
+  alerting_rule,
+  recording_rule,
+  rule_group,
+  scrape_config,
+  route,
+  rules_file,
+  prometheus_config,
+  alertmanager_config,
+  checkRules,
+  checkConfig,
+  checkAlertmanagerConfig,
+  PrometheusCheckError,
+} from './lib/prometheus';
+export type {
+  PrometheusParameters,
+  AlertingRule,
+  RecordingRule,
+  Rule,
+  RuleGroup,
+  RulesFile,
+  ScrapeConfig,
+  PrometheusConfig,
+  Route,
+  Receiver,
+  AlertmanagerConfig,
+} from './lib/prometheus';
+export type { CheckIssue } from './lib/errors';
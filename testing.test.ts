@@ -0,0 +1,96 @@
+import { spogtan, schema } from './index';
+import { ComponentTestError, FrameCheckError, harness, matchers } from './testing';
+
+expect.extend(matchers);
+
+const parameters = schema.object({
+  name: schema.string(),
+  replicas: schema.refine(schema.number(), Number.isInteger, 'must be a whole number'),
+  tags: schema.optional(schema.array(schema.string())),
+  tier: schema.enum('web', 'worker'),
+});
+const $ = spogtan(parameters);
+
+const service = $.wrap_with_defaults({ replicas: 1, tier: 'web' }, () => ({
+  name: $('name'),
+  replicas: $('replicas'),
+  tags: $('tags', false) ?? [],
+  tier: $.with({ tier: 'worker' }, () => $('tier')),
+}));
+
+const output = schema.object({
+  name: schema.string(),
+  replicas: schema.number(),
+  tags: schema.array(schema.string()),
+  tier: schema.string(),
+});
+
+test('the harness renders components under a Frame and checks how they use their parameters', () => {
+  const $test = harness($);
+  expect($test.render(service(), { name: 'web' })).toEqual({ name: 'web', replicas: 1, tags: [], tier: 'worker' });
+  $test.expect_missing(service(), 'name');
+  expect(() => $test.expect_missing(service(), 'name', { name: 'web' })).toThrow(
+    'Expected a MissingParameterError for name, but the value evaluated',
+  );
+
+  expect($test.expect_overridable(service(), 'replicas', 3, { name: 'web' })).toMatchObject({ replicas: 3 });
+  expect(() => $test.expect_overridable(service(), 'tier', 'web', { name: 'web' })).toThrow(
+    /^tier was set to 'web', but it was set to 'worker' from with\(\) at \S*testing\.test\.[jt]s:\d+:\d+ within the component \(at tier\)$/,
+  );
+  expect(() => $test.expect_overridable({}, 'name', 'web')).toThrow("name was set to 'web', but never read");
+
+  $test.expect_schema(service(), output, { name: 'web' });
+  expect(() => $test.expect_schema(service(), schema.object({ name: schema.number() }), { name: 'web' })).toThrow(
+    new ComponentTestError(
+      "The value doesn't match the schema:\n" +
+        "  name: expected a number, got 'web'\n" +
+        '  replicas: is not a known property\n' +
+        '  tags: is not a known property\n' +
+        '  tier: is not a known property',
+    ),
+  );
+});
+
+test('components are rendered under Frames generated from their parameter schema', () => {
+  const $test = harness($);
+  $test.check_frames(service(), parameters, { runs: 50, seed: 1 });
+
+  // Throws when there are more replicas than tags, which the simplest failing Frame shows
+  const fragile = $.with({}, () => $('tags', false)?.[$('replicas')].toUpperCase());
+  let error: FrameCheckError | undefined;
+  try {
+    $test.check_frames(fragile, parameters, { seed: 7, frame: { tier: 'web' } });
+  } catch (thrown) {
+    error = thrown as FrameCheckError;
+  }
+  expect(error).toBeInstanceOf(FrameCheckError);
+  expect(error?.seed).toBe(7);
+  expect(error?.frame).toEqual({ name: '', replicas: 0, tags: [], tier: 'web' });
+  expect(error?.message).toMatch(
+    /^The component threw for a valid Frame \(seed 7\):\n {2}\{ name: '', .*\nEvaluationError: /,
+  );
+
+  const unrefinable = schema.object({ id: schema.refine(schema.string(), (id) => id.length > 20, 'is too short') });
+  expect(() => harness(spogtan(unrefinable)).check_frames({}, unrefinable, { seed: 1 })).toThrow(
+    "Couldn't generate a valid value for parameter id, give it one with the `frame` option",
+  );
+});
+
+test('matchers describe mismatches by output path', () => {
+  const rendered = $.with({ name: 'web', tags: ['a'] }, service());
+  expect(rendered).toEvaluateTo({ name: 'web', replicas: 1, tags: ['a'], tier: 'worker' });
+  expect(rendered).not.toEvaluateTo({ name: 'api' });
+  expect(() => expect(rendered).toEvaluateTo({ name: 'api', replicas: 1, tags: [], tier: 'worker' })).toThrow(
+    'Expected the value to evaluate to what was expected (- expected, + received):\n' +
+      "~ name: 'api' -> 'web'\n" +
+      "+ tags[0]: 'a'\n" +
+      '2 changes: 1 added, 0 removed, 1 changed',
+  );
+
+  expect(service()).toThrowMissingParameter('name');
+  expect(rendered).not.toThrowMissingParameter('name');
+  expect(rendered).toMatchSchema(output);
+  expect(() => expect({ name: 1 }).toMatchSchema(schema.object({ name: schema.string() }))).toThrow(
+    "The value doesn't match the schema:\n  name: expected a string, got 1",
+  );
+});
@@ -0,0 +1,17 @@
+import type { DiffOptions } from './lib/diff';
+import type { Schema } from './lib/schema';
+
+export { Harness, harness, matchers, ComponentTestError, FrameCheckError } from './lib/testing';
+export type { CheckFramesOptions } from './lib/testing';
+
+// Types for the matchers once they're added with expect.extend(matchers).
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    interface Matchers<R> {
+      toEvaluateTo(expected: unknown, options?: DiffOptions): R;
+      toThrowMissingParameter(parameter: string): R;
+      toMatchSchema(schema: Schema<unknown>): R;
+    }
+  }
+}